@@ -3,6 +3,8 @@
  * 方便在开发时拦截并模拟 API 响应
  */
 
+import { load as loadYaml } from 'js-yaml';
+
 // Tampermonkey API 兼容性处理（用于开发环境）
 const GMCompat = {
   getValue: (key: string, defaultValue: any) => {
@@ -30,20 +32,102 @@ const GMCompat = {
     const style = document.createElement('style');
     style.textContent = css;
     document.head.appendChild(style);
+  },
+
+  setClipboard: (text: string): Promise<void> => {
+    if (typeof GM_setClipboard !== 'undefined') {
+      GM_setClipboard(text, 'text');
+      return Promise.resolve();
+    }
+    // 开发环境使用 Clipboard API
+    return navigator.clipboard.writeText(text);
   }
 };
 
+// URL 匹配方式：完全相等 / 前缀 / 通配符 / 路径参数 / 正则表达式
+type UrlMatchType = 'exact' | 'prefix' | 'glob' | 'path' | 'regex';
+
 // Mock 规则接口
 interface MockRule {
   id: string;
   enabled: boolean;
   name: string;
-  urlPattern: string; // 支持正则表达式
+  urlPattern: string; // 按 urlMatchType 解释
+  urlMatchType?: UrlMatchType; // 为空时按正则匹配原始地址，正则无效时按字符串包含匹配
+  urlMatchQuery?: boolean; // 指定匹配方式时连同查询参数一起匹配，默认只匹配路径
+  urlMatchOrigin?: boolean; // 指定匹配方式时连同协议和域名一起匹配
+  pageUrlPattern?: string; // 生效页面，逗号或换行分隔，支持 * 通配符；为空时在所有页面生效
   method: string; // GET, POST, PUT, DELETE, ALL
-  responseType: 'json' | 'text';
+  responseType: 'json' | 'text' | 'xml' | 'html' | 'csv' | 'form' | 'ndjson' | 'binary' | 'function'; // binary 时 responseData 为 data URL，function 时为 JS 函数源码
   responseData: string;
   statusCode: number;
   delay: number; // 延迟响应（毫秒）
+  network?: NetworkSettings; // 延迟分布、带宽限制和分块传输
+  matchers?: RequestMatcher[]; // 额外的请求条件，需全部满足
+  responseHeaders?: ResponseHeader[]; // 自定义响应头，Set-Cookie 会写入 document.cookie
+  outcome?: 'response' | FailureMode | 'malformedJson'; // 默认 response，其余为模拟的失败结果
+  responseMode?: 'static' | 'sequence' | 'patch' | 'stream'; // 默认 static，sequence 时按顺序返回 sequence.steps，patch 时修改真实响应，stream 时按 stream 推送事件流
+  sequence?: ResponseSequence;
+  stream?: EventStream;
+  patch?: ResponsePatch;
+}
+
+// 真实响应修改方式（响应头使用规则的 responseHeaders）
+interface ResponsePatch {
+  type: 'merge' | 'jsonPatch' | 'fields';
+  data: string; // 合并补丁对象 / JSON Patch 操作数组 / { "字段路径": 新值 }，支持模板语法
+  statusCode?: number; // 覆盖状态码，为空时保留真实状态码
+}
+
+// 响应序列（每次命中返回下一步）
+interface ResponseSequence {
+  steps: SequenceStep[];
+  onEnd: 'loop' | 'stick'; // 结束后从头循环 / 停留在最后一步
+  resetOnReload: boolean; // 刷新页面后是否从第一步重新开始
+}
+
+// 响应序列中的一步
+interface SequenceStep {
+  responseData: string;
+  statusCode: number;
+  delay: number;
+}
+
+// 事件流（SSE）设置
+interface EventStream {
+  events: StreamEvent[];
+  onEnd: 'hold' | 'loop' | 'close' | 'error'; // 播放完毕后：保持连接 / 从头循环 / 服务端关闭连接 / 连接出错
+}
+
+// 事件流中的单个事件
+interface StreamEvent {
+  delay: number; // 距上一个事件的时间（ms）
+  id: string;
+  event: string; // 为空时为 message 事件
+  data: string; // 支持模板语法，多行时每行一个 data 字段
+  retry?: number;
+}
+
+// 请求日志中记录的事件
+interface StreamLogEvent {
+  id: string;
+  event: string;
+  data: string;
+  timestamp: number;
+}
+
+// 自定义响应头
+interface ResponseHeader {
+  name: string;
+  value: string;
+}
+
+// 请求条件匹配器
+interface RequestMatcher {
+  source: 'query' | 'header' | 'body';
+  key: string; // 参数名 / 请求头名 / 请求体字段路径（如 $.user.id），请求体字段为空时匹配整个请求体
+  operator: 'equals' | 'contains' | 'regex' | 'exists';
+  value: string;
 }
 
 // 请求日志接口
@@ -52,32 +136,276 @@ interface RequestLog {
   timestamp: number;
   url: string;
   method: string;
+  initiator: 'fetch' | 'xhr' | 'eventsource';
+  pageUrl?: string; // 发出请求的页面
+  matched: boolean;
+  ruleId?: string;
+  error?: string; // 生成 Mock 响应时的错误（如 JS 函数运行异常），或请求失败的原因
+  requestHeaders?: Record<string, string>;
+  requestBody?: string;
+  response?: CapturedResponse; // Mock 响应，或捕获的真实响应
+  recorded?: boolean; // 录制模式下捕获的真实响应，可批量保存为规则
+  duration?: number; // 从发出请求到响应结束的耗时（毫秒）
+  events?: StreamLogEvent[]; // 事件流模式下已推送的事件
+}
+
+// 录制的真实响应
+interface CapturedResponse {
+  status: number;
+  headers: Record<string, string>; // 键名统一小写
+  body: string;
+  encoding?: 'base64'; // 二进制响应体以 base64 保存
+  truncated?: boolean; // 响应体过大，只保留了开头部分
+}
+
+// 规则对某个请求的匹配诊断
+interface RuleDiagnosis {
+  rule: MockRule;
+  matched: boolean; // 单独看这条规则是否命中
+  reasons: string[]; // 未命中的原因
+  warnings: string[]; // 不影响结果但值得注意的问题，如正则无效时按字符串包含匹配
+  params: Record<string, string>;
+  shadowedBy?: MockRule; // 命中但被排在前面的规则抢先
+}
+
+// 从请求地址生成的 URL 匹配规则建议
+interface UrlPatternSuggestion extends Pick<MockRule, 'urlPattern' | 'urlMatchType' | 'urlMatchQuery'> {
+  label: string;
+}
+
+// 请求上下文（由 Fetch / XHR 拦截器构建，供模板等使用）
+interface RequestContext {
+  rawUrl: string; // 调用方传入的原始地址
+  url: string; // 绝对地址
+  method: string;
+  path: string;
+  segments: string[]; // 路径片段，如 /api/user/1 => ['api', 'user', '1']
+  query: Record<string, string>;
+  headers: Record<string, string>; // 键名统一小写
+  rawBody: string;
+  body: any; // JSON / 表单会被解析为对象，否则为原始字符串
+  params: Record<string, string>; // URL 匹配规则中的命名捕获组
+}
+
+// JS 函数响应的返回值
+interface HandlerResult {
+  status?: number;
+  headers?: Record<string, string | string[]>;
+  body?: any; // 非字符串会被序列化为 JSON
+  delay?: number;
+}
+
+// 预设网络环境名称
+type NetworkPresetName = 'slow3g' | 'fast3g' | 'slow4g' | '4g';
+
+// 规则的网络模拟设置
+interface NetworkSettings {
+  preset: 'default' | 'custom' | NetworkPresetName; // default 跟随全局设置，custom 使用规则的延迟和以下字段
+  delayMax: number; // 大于延迟时在 [延迟, 最大延迟] 区间内随机
+  distribution: 'uniform' | 'normal';
+  jitter: number; // 随机 ± 抖动（毫秒）
+  bandwidth: number; // 下行带宽（KB/s），0 表示不限
+  chunked: boolean; // 分块返回响应体（Fetch 使用 ReadableStream，XHR 触发 progress 事件）
+  chunkSize: number; // 每块字节数，0 表示按行分块
+  chunkInterval: number; // 未限制带宽时每块的间隔（毫秒）
+}
+
+// 网络环境参数
+interface NetworkProfile {
+  latency: number;
+  latencyMax: number;
+  distribution: 'uniform' | 'normal';
+  jitter: number;
+  bandwidth: number;
+}
+
+// 网络层失败方式：网络错误 / 超时 / 连接中断
+type FailureMode = 'networkError' | 'timeout' | 'reset';
+
+// 混沌模式：按比例让请求失败
+interface ChaosConfig {
+  enabled: boolean;
+  rate: number; // 失败比例（0-100）
+  scope: 'matched' | 'unmatched' | 'all';
+  outcome: FailureMode | 'malformedJson' | 'serverError';
+}
+
+// Mock 响应（Fetch / XHR 拦截器共用）
+interface MockResponse {
+  status: number;
+  headers: Record<string, string>; // 键名统一小写
+  cookies: string[]; // Set-Cookie 值，响应送达时写入 document.cookie
+  body: string;
+  bytes?: Uint8Array<ArrayBuffer>; // 二进制响应体，设置后代替 body 发送
+  delay: number;
+  error?: string;
+  failure?: FailureMode; // 设置后不返回响应，而是模拟网络层失败
+  chunks?: { size: number; interval: number }; // 分块传输设置，interval 为 0 时按带宽计算
+  bandwidth?: number; // 分块传输时的带宽（KB/s）
+  stream?: { events: () => StreamEvent[]; onEnd: EventStream['onEnd'] }; // 事件流，events 每次调用渲染一轮事件
+}
+
+// 被拦截的 XHR 的模拟状态，实例上的 readyState、status、response 等属性从这里读取
+interface MockXHRState {
+  url: string; // 解析后的完整地址，作为 responseURL
+  readyState: number;
+  sending: boolean; // 已调用 send() 且请求尚未结束
+  uploadComplete: boolean;
+  failed: boolean; // 以网络错误、超时或中止结束
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  received: string; // 已接收的响应文本
+  bytes?: Uint8Array<ArrayBuffer>; // 完整的响应字节，用于 arraybuffer / blob 响应
+  response?: { value: any }; // 按 responseType 转换后的响应，多次读取返回同一个对象
+  document?: { value: Document | null };
+  timers: number[];
+}
+
+// 场景：一组启用的规则及其响应覆盖
+interface Scenario {
+  id: string;
+  name: string;
+  ruleIds: string[]; // 场景中启用的规则，其余规则视为禁用
+  overrides: Record<string, ScenarioOverride>; // 规则 ID => 响应覆盖
+}
+
+// 场景中对规则响应的覆盖，未填写的字段沿用规则本身
+interface ScenarioOverride {
+  responseData?: string;
+  statusCode?: number;
+  delay?: number;
+}
+
+// WebSocket Mock 规则
+interface WebSocketRule {
+  id: string;
+  enabled: boolean;
+  name: string;
+  urlPattern: string; // 匹配 WebSocket 地址，规则同 HTTP 规则
+  urlMatchType?: UrlMatchType;
+  urlMatchQuery?: boolean;
+  urlMatchOrigin?: boolean;
+  pageUrlPattern?: string;
+  connect: 'accept' | 'reject'; // reject：始终连接失败
+  rejectFirst: number; // 前 N 次连接失败，之后正常连接（模拟服务端恢复）
+  openDelay: number; // 建立连接的耗时（ms）
+  protocol: string; // 服务端选定的子协议，留空时取客户端请求的第一个
+  onOpen: WebSocketScriptedMessage[]; // 连接建立后依次推送
+  timers: WebSocketTimer[]; // 定时推送
+  replies: WebSocketReply[]; // 收到匹配的消息时回复
+  close: WebSocketCloseSettings; // 服务端主动关闭
+}
+
+// 连接建立后推送的消息
+interface WebSocketScriptedMessage {
+  data: string; // 支持模板语法
+  delay: number; // 相对连接建立的时间（ms）
+}
+
+// 定时推送的消息
+interface WebSocketTimer {
+  data: string;
+  interval: number;
+}
+
+// 收到匹配消息时的回复
+interface WebSocketReply {
+  pattern: string; // 匹配收到的消息（正则或包含匹配，留空匹配所有消息）
+  data: string; // 支持模板语法，body 为收到的消息
+  delay: number;
+}
+
+// 服务端主动关闭连接
+interface WebSocketCloseSettings {
+  after: number; // 连接建立后多久关闭（ms），0 表示不主动关闭
+  code: number; // 1006 表示异常断开（不发送关闭帧）
+  reason: string;
+}
+
+// WebSocket 连接日志
+interface WebSocketLog {
+  id: string;
+  timestamp: number;
+  url: string;
   matched: boolean;
   ruleId?: string;
+  status: 'connecting' | 'open' | 'closed' | 'failed';
+  closeCode?: number;
+  closeReason?: string;
+  messages: WebSocketLogMessage[];
+}
+
+// WebSocket 日志中的单条消息
+interface WebSocketLogMessage {
+  direction: 'sent' | 'received';
+  data: string;
+  timestamp: number;
 }
 
 // 脚本配置
 interface ScriptConfig {
   enabled: boolean;
   rules: MockRule[];
+  wsRules: WebSocketRule[];
+  scenarios: Scenario[];
+  activeScenarioId: string | null; // 为空时使用规则自身的启用状态
   showNotification: boolean;
   logRequests: boolean;
+  logLimit: number; // 请求日志最多保留条数
+  logRetentionHours: number; // 请求日志跨页面保留的时长（小时），默认 0 表示刷新页面后清空
+  recordResponses: boolean; // 录制未匹配请求的真实响应
+  chaos: ChaosConfig;
+  networkPreset: 'none' | NetworkPresetName; // 默认网络环境，作用于跟随全局设置的规则
 }
 
 // 默认配置
 const defaultConfig: ScriptConfig = {
   enabled: true,
   rules: [],
+  wsRules: [],
+  scenarios: [],
+  activeScenarioId: null,
   showNotification: true,
   logRequests: true,
+  logLimit: 100,
+  logRetentionHours: 0,
+  recordResponses: false,
+  chaos: {
+    enabled: false,
+    rate: 10,
+    scope: 'all',
+    outcome: 'networkError',
+  },
+  networkPreset: 'none',
+};
+
+// 预设网络环境（参考 Chrome DevTools 的网络限速配置）
+const networkPresets: Record<NetworkPresetName, { label: string; profile: NetworkProfile }> = {
+  slow3g: { label: 'Slow 3G', profile: { latency: 2000, latencyMax: 2000, distribution: 'normal', jitter: 300, bandwidth: 50 } },
+  fast3g: { label: 'Fast 3G', profile: { latency: 560, latencyMax: 560, distribution: 'normal', jitter: 100, bandwidth: 180 } },
+  slow4g: { label: 'Slow 4G', profile: { latency: 150, latencyMax: 300, distribution: 'normal', jitter: 50, bandwidth: 400 } },
+  '4g': { label: '4G', profile: { latency: 50, latencyMax: 100, distribution: 'uniform', jitter: 20, bandwidth: 1200 } },
 };
 
 // 全局状态
 let config: ScriptConfig = defaultConfig;
 let requestLogs: RequestLog[] = [];
+let logFilter = { search: '', method: '', status: '', matched: '', ruleId: '' }; // 请求日志的筛选条件
+let logSaveTimer = 0;
 let originalFetch: typeof fetch;
 let originalXHROpen: typeof XMLHttpRequest.prototype.open;
 let originalXHRSend: typeof XMLHttpRequest.prototype.send;
+let originalXHRSetRequestHeader: typeof XMLHttpRequest.prototype.setRequestHeader;
+let originalXHRAbort: typeof XMLHttpRequest.prototype.abort;
+let originalXHROverrideMimeType: typeof XMLHttpRequest.prototype.overrideMimeType;
+let originalWebSocket: typeof WebSocket;
+let originalEventSource: typeof EventSource;
+let wsLogs: WebSocketLog[] = [];
+const wsConnectionCounts: Record<string, number> = {}; // WebSocket 规则 ID => 本页已尝试连接次数
+let sequenceState: Record<string, number> = {}; // 规则 ID => 已命中次数
+const handlerStates: Record<string, Record<string, any>> = {}; // 规则 ID => JS 函数的状态存储
+const handlerCache = new Map<string, Function>();
 
 // 加载配置
 function loadConfig(): ScriptConfig {
@@ -101,441 +429,3873 @@ function saveConfig() {
   }
 }
 
-// 匹配规则
-function matchRule(url: string, method: string): MockRule | null {
-  if (!config.enabled) return null;
-
-  for (const rule of config.rules) {
-    if (!rule.enabled) continue;
-    
-    // 方法匹配
-    if (rule.method !== 'ALL' && rule.method !== method.toUpperCase()) {
-      continue;
-    }
-
-    // URL 匹配（支持正则表达式和字符串匹配）
-    let matched = false;
-    
-    try {
-      // 尝试作为正则表达式匹配
-      const pattern = new RegExp(rule.urlPattern);
-      matched = pattern.test(url);
-    } catch (e) {
-      // 如果正则表达式无效，使用字符串包含匹配
-      matched = url.includes(rule.urlPattern);
-    }
-
-    if (matched) {
-      console.log(`✅ Mock 规则匹配成功: [${rule.name}]`, {
-        url,
-        method,
-        pattern: rule.urlPattern
+// 加载响应序列进度（仅恢复未设置刷新重置的规则）
+function loadSequenceState(): Record<string, number> {
+  try {
+    const saved = GMCompat.getValue('mock_sequence_state', null);
+    if (saved) {
+      const state: Record<string, number> = JSON.parse(saved);
+      const result: Record<string, number> = {};
+      config.rules.forEach(rule => {
+        if (rule.sequence && !rule.sequence.resetOnReload && state[rule.id]) {
+          result[rule.id] = state[rule.id];
+        }
       });
-      return rule;
+      return result;
     }
+  } catch (e) {
+    console.error('加载响应序列进度失败:', e);
   }
+  return {};
+}
 
-  return null;
+// 保存响应序列进度
+function saveSequenceState() {
+  try {
+    GMCompat.setValue('mock_sequence_state', JSON.stringify(sequenceState));
+  } catch (e) {
+    console.error('保存响应序列进度失败:', e);
+  }
 }
 
-// 添加请求日志
-function addRequestLog(url: string, method: string, matched: boolean, ruleId?: string) {
-  if (!config.logRequests) return;
+// 请求日志的存储键（按页面来源分开保存，其他站点无法读取）
+function getRequestLogsKey(): string {
+  return `mock_request_logs:${location.origin}`;
+}
 
-  const log: RequestLog = {
-    id: Date.now().toString(36) + Math.random().toString(36).substr(2),
-    timestamp: Date.now(),
-    url,
-    method,
-    matched,
-    ruleId,
-  };
+// 读取已保存的请求日志，丢弃过期、清空前以及来自其他来源的日志
+function readSavedRequestLogs(): RequestLog[] {
+  const saved = GMCompat.getValue(getRequestLogsKey(), null);
+  if (!saved) return [];
+  const data = JSON.parse(saved) as { clearedAt?: number; logs?: RequestLog[] };
+  const expiresBefore = Math.max(data.clearedAt || 0, Date.now() - config.logRetentionHours * 3600 * 1000);
+  return (data.logs || []).filter(log => log.timestamp >= expiresBefore && isSameOriginLog(log));
+}
 
-  requestLogs.unshift(log);
-  
-  // 只保留最近 100 条日志
-  if (requestLogs.length > 100) {
-    requestLogs = requestLogs.slice(0, 100);
+// 判断日志是否由当前来源的页面发出
+function isSameOriginLog(log: RequestLog): boolean {
+  try {
+    return new URL(log.pageUrl || '').origin === location.origin;
+  } catch (e) {
+    return false;
   }
 }
 
-// 拦截 Fetch
-function interceptFetch() {
-  originalFetch = window.fetch;
+// 读取日志被清空的时间（任意标签页清空后，其他标签页不再写回更早的日志）
+function getRequestLogsClearedAt(): number {
+  try {
+    const saved = GMCompat.getValue(getRequestLogsKey(), null);
+    return saved ? JSON.parse(saved).clearedAt || 0 : 0;
+  } catch (e) {
+    return 0;
+  }
+}
 
-  window.fetch = async function(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
-    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
-    const method = init?.method || 'GET';
+// 加载持久化的请求日志
+function loadRequestLogs(): RequestLog[] {
+  if (config.logRetentionHours <= 0) return [];
+  try {
+    return readSavedRequestLogs().slice(0, config.logLimit);
+  } catch (e) {
+    console.error('加载请求日志失败:', e);
+  }
+  return [];
+}
 
-    const rule = matchRule(url, method);
+// 合并短时间内的多次日志变更，稍后统一保存
+function scheduleSaveRequestLogs() {
+  if (logSaveTimer || config.logRetentionHours <= 0) return;
+  logSaveTimer = window.setTimeout(saveRequestLogs, 1000);
+}
 
-    if (rule) {
-      addRequestLog(url, method, true, rule.id);
-      
-      if (config.showNotification) {
-        console.log(`🎭 Mock: ${method} ${url} -> ${rule.name}`);
-      }
+// 隐藏请求头中的凭据（Authorization、Cookie、各类 Token 等）
+function maskSensitiveHeaders(headers: Record<string, string>): Record<string, string> {
+  const masked: Record<string, string> = {};
+  Object.keys(headers).forEach(name => {
+    masked[name] = /^(authorization|proxy-authorization|cookie|set-cookie)$|token|secret|api-?key|session/i.test(name) ? '******' : headers[name];
+  });
+  return masked;
+}
 
-      // 模拟延迟
-      if (rule.delay > 0) {
-        await new Promise(resolve => setTimeout(resolve, rule.delay));
-      }
+// 压缩要保存的日志：隐藏凭据，请求体和响应体只保留开头部分（录制的响应保留更多）
+function compactRequestLog(log: RequestLog): RequestLog {
+  const limit = log.recorded ? 64 * 1024 : 4 * 1024;
+  const compact: RequestLog = { ...log };
+  if (log.requestHeaders) compact.requestHeaders = maskSensitiveHeaders(log.requestHeaders);
+  if (log.requestBody && log.requestBody.length > limit) compact.requestBody = log.requestBody.slice(0, limit);
+  if (log.response) {
+    const body = log.response.encoding === 'base64' && log.response.body.length > limit ? '' : log.response.body;
+    compact.response = {
+      ...log.response,
+      headers: maskSensitiveHeaders(log.response.headers),
+      body: body.slice(0, limit),
+      ...(body.length > limit || body !== log.response.body ? { truncated: true } : {}),
+    };
+  }
+  if (log.events && log.events.length > 20) compact.events = log.events.slice(-20);
+  return compact;
+}
 
-      // 创建模拟响应
-      const responseData = rule.responseType === 'json' 
-        ? JSON.parse(rule.responseData)
-        : rule.responseData;
-
-      return new Response(
-        rule.responseType === 'json' ? JSON.stringify(responseData) : responseData,
-        {
-          status: rule.statusCode,
-          statusText: 'OK',
-          headers: {
-            'Content-Type': rule.responseType === 'json' 
-              ? 'application/json' 
-              : 'text/plain',
-          },
-        }
-      );
-    }
+// 保存请求日志：合并其他标签页已保存的日志，按时间排序后截断
+function saveRequestLogs() {
+  clearTimeout(logSaveTimer);
+  logSaveTimer = 0;
+  if (config.logRetentionHours <= 0) return;
 
-    addRequestLog(url, method, false);
-    return originalFetch.apply(this, [input, init] as any);
-  };
-}
+  try {
+    const clearedAt = getRequestLogsClearedAt();
+    const known = new Set(requestLogs.map(log => log.id));
+    const others = readSavedRequestLogs().filter(log => !known.has(log.id));
+    requestLogs = requestLogs
+      .filter(log => log.timestamp >= clearedAt)
+      .concat(others)
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, config.logLimit);
 
-// 拦截 XMLHttpRequest
-function interceptXHR() {
-  originalXHROpen = XMLHttpRequest.prototype.open;
-  originalXHRSend = XMLHttpRequest.prototype.send;
+    const logs = requestLogs.filter(isSameOriginLog).map(compactRequestLog);
+    GMCompat.setValue(getRequestLogsKey(), JSON.stringify({ clearedAt, logs }));
+  } catch (e) {
+    console.error('保存请求日志失败:', e);
+  }
+}
 
-  XMLHttpRequest.prototype.open = function(
-    method: string,
-    url: string | URL,
-    async: boolean = true,
-    username?: string | null,
-    password?: string | null
-  ) {
-    const urlStr = typeof url === 'string' ? url : url.href;
-    (this as any)._mockUrl = urlStr;
-    (this as any)._mockMethod = method;
+// 清空请求日志（包括已保存的日志，其他标签页中更早的日志也不再写回）
+function clearRequestLogs() {
+  requestLogs = [];
+  clearTimeout(logSaveTimer);
+  logSaveTimer = 0;
+  GMCompat.setValue(getRequestLogsKey(), JSON.stringify({ clearedAt: Date.now(), logs: [] }));
+}
 
-    return originalXHROpen.apply(this, [method, url, async, username, password] as any);
-  };
+// 重置规则的响应序列进度
+function resetSequence(ruleId: string) {
+  delete sequenceState[ruleId];
+  saveSequenceState();
+}
 
-  XMLHttpRequest.prototype.send = function(body?: Document | XMLHttpRequestBodyInit | null) {
-    const url = (this as any)._mockUrl;
-    const method = (this as any)._mockMethod;
+// 取出响应序列的下一步
+function nextSequenceStep(rule: MockRule): SequenceStep | null {
+  const steps = rule.sequence?.steps || [];
+  if (steps.length === 0) return null;
 
-    if (url && method) {
-      const rule = matchRule(url, method);
+  const hits = sequenceState[rule.id] || 0;
+  sequenceState[rule.id] = hits + 1;
+  saveSequenceState();
 
-      if (rule) {
-        addRequestLog(url, method, true, rule.id);
+  if (rule.sequence!.onEnd === 'loop') {
+    return steps[hits % steps.length];
+  }
+  return steps[Math.min(hits, steps.length - 1)];
+}
 
-        if (config.showNotification) {
-          console.log(`🎭 Mock: ${method} ${url} -> ${rule.name}`);
-        }
+// 读取匹配器对应的请求值
+function getMatcherValue(matcher: RequestMatcher, ctx: RequestContext): any {
+  if (matcher.source === 'query') return ctx.query[matcher.key];
+  if (matcher.source === 'header') return ctx.headers[matcher.key.toLowerCase()];
 
-        // 标记为已拦截，阻止实际请求
-        (this as any)._mockIntercepted = true;
-
-        // 模拟异步响应
-        setTimeout(() => {
-          // 模拟 readyState 变化
-          Object.defineProperty(this, 'readyState', { value: 1, writable: true, configurable: true });
-          this.dispatchEvent(new Event('readystatechange'));
-
-          Object.defineProperty(this, 'readyState', { value: 2, writable: true, configurable: true });
-          this.dispatchEvent(new Event('readystatechange'));
-
-          Object.defineProperty(this, 'readyState', { value: 3, writable: true, configurable: true });
-          this.dispatchEvent(new Event('readystatechange'));
-
-          // 设置响应数据
-          Object.defineProperty(this, 'readyState', { value: 4, writable: true, configurable: true });
-          Object.defineProperty(this, 'status', { value: rule.statusCode, writable: false, configurable: true });
-          Object.defineProperty(this, 'statusText', { value: 'OK', writable: false, configurable: true });
-          Object.defineProperty(this, 'responseText', { value: rule.responseData, writable: false, configurable: true });
-          
-          // 设置响应类型
-          if (rule.responseType === 'json') {
-            try {
-              Object.defineProperty(this, 'response', { 
-                value: JSON.parse(rule.responseData), 
-                writable: false,
-                configurable: true
-              });
-              Object.defineProperty(this, 'responseType', { 
-                value: 'json', 
-                writable: false,
-                configurable: true
-              });
-            } catch (e) {
-              console.error('Mock 数据 JSON 解析失败:', e);
-              Object.defineProperty(this, 'response', { 
-                value: rule.responseData, 
-                writable: false,
-                configurable: true
-              });
-            }
-          } else {
-            Object.defineProperty(this, 'response', { 
-              value: rule.responseData, 
-              writable: false,
-              configurable: true
-            });
-          }
+  const path = matcher.key.replace(/^\$\.?/, '');
+  if (!path) return ctx.rawBody || undefined;
+  return getValueByPath(ctx.body, path);
+}
 
-          // 设置响应头
-          (this as any).getAllResponseHeaders = () => {
-            return `Content-Type: ${rule.responseType === 'json' ? 'application/json' : 'text/plain'}\r\n`;
-          };
-          (this as any).getResponseHeader = (name: string) => {
-            if (name.toLowerCase() === 'content-type') {
-              return rule.responseType === 'json' ? 'application/json' : 'text/plain';
-            }
-            return null;
-          };
-
-          // 触发完成事件
-          this.dispatchEvent(new Event('readystatechange'));
-          this.dispatchEvent(new Event('load'));
-          this.dispatchEvent(new Event('loadend'));
-        }, rule.delay);
-
-        // 不调用原始的 send 方法
-        return;
-      }
+// 判断请求是否满足匹配器
+function testMatcher(matcher: RequestMatcher, ctx: RequestContext): boolean {
+  const actual = getMatcherValue(matcher, ctx);
+  if (matcher.operator === 'exists') return actual !== undefined && actual !== null;
+  if (actual === undefined || actual === null) return false;
 
-      addRequestLog(url, method, false);
-    }
+  const actualStr = typeof actual === 'object' ? JSON.stringify(actual) : String(actual);
 
-    // 没有匹配到规则，调用原始方法
-    return originalXHRSend.apply(this, [body] as any);
-  };
+  switch (matcher.operator) {
+    case 'equals':
+      if (typeof actual === 'object') {
+        try {
+          return actualStr === JSON.stringify(JSON.parse(matcher.value));
+        } catch (e) {
+          return false;
+        }
+      }
+      return actualStr === matcher.value;
+    case 'contains':
+      return actualStr.includes(matcher.value);
+    case 'regex':
+      try {
+        return new RegExp(matcher.value).test(actualStr);
+      } catch (e) {
+        return false;
+      }
+  }
+  return false;
 }
 
-// 生成唯一 ID
-function generateId(): string {
-  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+// 将通配符模式转换为正则表达式
+function globToRegExp(glob: string): RegExp {
+  return new RegExp(`^${glob.split('*').map(escapeRegExp).join('.*')}$`, 'i');
 }
 
-// 创建控制面板
-function createControlPanel() {
-  // 添加样式
-  GMCompat.addStyle(`
-    .mock-panel {
-      position: fixed;
-      top: 50%;
-      left: 50%;
-      transform: translate(-50%, -50%);
-      width: 90%;
-      max-width: 900px;
-      max-height: 90vh;
-      background: #fff;
-      border-radius: 12px;
-      box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3);
-      z-index: 999999;
-      display: none;
-      flex-direction: column;
-      overflow: hidden;
-    }
+// 判断规则是否在当前页面（或指定页面）生效
+function isRuleActiveOnPage(rule: Pick<MockRule, 'pageUrlPattern'>, pageUrl = location.href): boolean {
+  const patterns = (rule.pageUrlPattern || '').split(/[,\n]/).map(p => p.trim()).filter(Boolean);
+  if (patterns.length === 0) return true;
 
-    .mock-panel.show {
-      display: flex;
+  const host = getPageHost(pageUrl);
+  return patterns.some(pattern => {
+    // 不含协议的模式只匹配主机名（含端口），如 example.com、*.example.com、localhost:3000
+    if (!pattern.includes('://')) {
+      return globToRegExp(pattern).test(host);
     }
+    return globToRegExp(pattern).test(pageUrl);
+  });
+}
 
-    .mock-panel-header {
-      padding: 20px 24px;
-      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-      color: white;
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-    }
+// 获取页面地址的主机名（含端口）
+function getPageHost(pageUrl: string): string {
+  if (pageUrl === location.href) return location.host;
+  try {
+    return new URL(pageUrl).host;
+  } catch (e) {
+    return '';
+  }
+}
 
-    .mock-panel-title {
-      font-size: 18px;
-      font-weight: 600;
-      margin: 0;
-    }
+// 获取当前激活的场景
+function getActiveScenario(): Scenario | null {
+  return config.scenarios.find(s => s.id === config.activeScenarioId) || null;
+}
 
-    .mock-panel-close {
-      background: rgba(255, 255, 255, 0.2);
-      border: none;
-      color: white;
-      width: 32px;
-      height: 32px;
-      border-radius: 50%;
-      cursor: pointer;
-      font-size: 20px;
-      line-height: 1;
-      transition: background 0.2s;
-    }
+// 获取生效的规则列表（应用当前场景的启用状态和响应覆盖）
+function getEffectiveRules(): MockRule[] {
+  const scenario = getActiveScenario();
+  if (!scenario) return config.rules;
 
-    .mock-panel-close:hover {
-      background: rgba(255, 255, 255, 0.3);
-    }
+  return config.rules.map(rule => applyScenarioOverride({ ...rule, enabled: scenario.ruleIds.includes(rule.id) }, scenario.overrides[rule.id]));
+}
 
-    .mock-panel-tabs {
-      display: flex;
-      background: #f5f5f5;
-      border-bottom: 1px solid #e0e0e0;
-    }
+// 应用场景对规则响应的覆盖：响应序列的每一步、事件流的事件和修改真实响应的补丁同样被覆盖
+function applyScenarioOverride(rule: MockRule, override?: ScenarioOverride): MockRule {
+  if (!override) return rule;
 
-    .mock-panel-tab {
-      padding: 12px 24px;
-      background: none;
-      border: none;
-      cursor: pointer;
-      font-size: 14px;
-      color: #666;
-      transition: all 0.2s;
-      border-bottom: 2px solid transparent;
-    }
+  const result: MockRule = {
+    ...rule,
+    ...(override.responseData ? { responseData: override.responseData } : {}),
+    ...(override.statusCode ? { statusCode: override.statusCode } : {}),
+    ...(override.delay !== undefined ? { delay: override.delay } : {}),
+  };
+  if (rule.sequence) {
+    result.sequence = {
+      ...rule.sequence,
+      steps: rule.sequence.steps.map(step => ({
+        responseData: override.responseData || step.responseData,
+        statusCode: override.statusCode || step.statusCode,
+        delay: override.delay ?? step.delay,
+      })),
+    };
+  }
+  if (rule.stream && override.responseData) {
+    result.stream = { ...rule.stream, events: parseEventStream(`${override.responseData}\n\n`) };
+  }
+  if (rule.patch) {
+    result.patch = {
+      ...rule.patch,
+      data: override.responseData || rule.patch.data,
+      statusCode: override.statusCode || rule.patch.statusCode,
+    };
+  }
+  return result;
+}
 
-    .mock-panel-tab.active {
-      color: #667eea;
-      border-bottom-color: #667eea;
-      background: white;
-    }
+// 规则在当前场景（没有场景时为规则自身开关）下是否启用
+function isRuleEnabled(rule: MockRule): boolean {
+  const scenario = getActiveScenario();
+  return scenario ? scenario.ruleIds.includes(rule.id) : rule.enabled;
+}
 
-    .mock-panel-content {
-      flex: 1;
-      overflow-y: auto;
-      padding: 24px;
-    }
+// 新增规则，有当前场景时启用的规则同时加入场景
+function addRules(rules: MockRule[]) {
+  config.rules.push(...rules);
+  const scenario = getActiveScenario();
+  if (scenario) {
+    scenario.ruleIds.push(...rules.filter(rule => rule.enabled).map(rule => rule.id));
+  }
+}
 
-    .mock-rule {
-      background: #f9f9f9;
-      border: 1px solid #e0e0e0;
-      border-radius: 8px;
-      padding: 16px;
-      margin-bottom: 12px;
-    }
+// 匹配 URL（支持正则表达式和字符串匹配），命中时返回正则的命名分组
+function matchUrlPattern(pattern: string, url: string): Record<string, string> | null {
+  try {
+    // 尝试作为正则表达式匹配
+    const result = new RegExp(pattern).exec(url);
+    return result ? { ...result.groups } : null;
+  } catch (e) {
+    // 如果正则表达式无效，使用字符串包含匹配
+    return url.includes(pattern) ? {} : null;
+  }
+}
 
-    .mock-rule-header {
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-      margin-bottom: 12px;
-    }
+// 获取参与匹配的地址：默认只取路径，按规则选项带上查询参数和协议域名
+function getUrlMatchTarget(rule: Pick<MockRule, 'urlMatchQuery' | 'urlMatchOrigin'>, ctx: Pick<RequestContext, 'rawUrl' | 'url'>): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(ctx.url);
+  } catch (e) {
+    return ctx.rawUrl;
+  }
+  return `${rule.urlMatchOrigin ? parsed.origin : ''}${parsed.pathname}${rule.urlMatchQuery ? parsed.search : ''}`;
+}
 
-    .mock-rule-name {
-      font-weight: 600;
-      font-size: 16px;
-      color: #333;
-    }
+// 匹配通配符或路径参数模式：* 匹配一段路径，** 匹配任意字符，:name 捕获一段路径；通配符按出现顺序捕获为 0、1…
+function matchUrlTemplate(pattern: string, target: string, withParams: boolean): Record<string, string> | null {
+  const names: string[] = [];
+  let wildcards = 0;
+  const source = pattern
+    .split(withParams ? /(\*\*|\*|:[A-Za-z_$][\w$]*)/ : /(\*\*|\*)/)
+    .map((part, i) => {
+      if (i % 2 === 0) return escapeRegExp(part);
+      names.push(part.startsWith(':') ? part.slice(1) : String(wildcards++));
+      return part === '**' ? '(.*)' : part === '*' ? '([^/]*)' : '([^/?#]+)';
+    })
+    .join('');
 
-    .mock-rule-actions {
-      display: flex;
-      gap: 8px;
-    }
+  const result = new RegExp(`^${source}$`).exec(target);
+  if (!result) return null;
+  const params: Record<string, string> = {};
+  // 地址已经过 decodeURI，这里只需解码其保留的分隔符（如 %2F）
+  names.forEach((name, i) => {
+    params[name] = result[i + 1].replace(/%(2[346BCF]|3[ABDF]|40)/gi, escape => decodeURIComponent(escape));
+  });
+  return params;
+}
 
-    .mock-btn {
-      padding: 6px 12px;
-      border: none;
-      border-radius: 4px;
-      cursor: pointer;
-      font-size: 12px;
-      transition: all 0.2s;
-    }
+// 解码 URL 中的百分号编码（保留 / ? # 等分隔符），无法解码时原样返回
+function safeDecodeURI(value: string): string {
+  try {
+    return decodeURI(value);
+  } catch (e) {
+    return value;
+  }
+}
 
-    .mock-btn-primary {
-      background: #667eea;
-      color: white;
-    }
+// 按规则的匹配方式匹配 URL，命中时返回捕获的参数；地址和模式都按解码后的形式比较，模式中可以直接写中文、空格等
+function matchRuleUrl(rule: Pick<MockRule, 'urlPattern' | 'urlMatchType' | 'urlMatchQuery' | 'urlMatchOrigin'>, ctx: Pick<RequestContext, 'rawUrl' | 'url'>): Record<string, string> | null {
+  if (!rule.urlMatchType) return matchUrlPattern(rule.urlPattern, ctx.rawUrl);
 
-    .mock-btn-primary:hover {
-      background: #5568d3;
+  const target = safeDecodeURI(getUrlMatchTarget(rule, ctx));
+  if (rule.urlMatchType === 'regex') {
+    try {
+      const result = new RegExp(rule.urlPattern).exec(target);
+      return result ? { ...result.groups } : null;
+    } catch (e) {
+      return null;
     }
+  }
 
-    .mock-btn-danger {
-      background: #f5576c;
-      color: white;
+  const pattern = safeDecodeURI(rule.urlPattern);
+  switch (rule.urlMatchType) {
+    case 'exact':
+      return target === pattern ? {} : null;
+    case 'prefix': {
+      // 前缀需在路径分隔处结束，/api/user 不匹配 /api/user-settings
+      if (!target.startsWith(pattern)) return null;
+      return pattern.endsWith('/') || /^([/?#]|$)/.test(target.slice(pattern.length)) ? {} : null;
     }
+    case 'glob':
+      return matchUrlTemplate(pattern, target, false);
+    case 'path':
+      return matchUrlTemplate(pattern, target, true);
+  }
+}
 
-    .mock-btn-danger:hover {
-      background: #e04556;
-    }
+// 描述请求条件，如 "请求体 $.user.id 等于 1"
+function describeMatcher(matcher: RequestMatcher): string {
+  const sources = { query: '查询参数', header: '请求头', body: '请求体' };
+  const operators = { equals: '等于', contains: '包含', regex: '匹配正则', exists: '存在' };
+  const key = matcher.key || (matcher.source === 'body' ? '（整个请求体）' : '');
+  return `${sources[matcher.source]} ${key} ${operators[matcher.operator]}${matcher.operator === 'exists' ? '' : ` ${matcher.value}`}`;
+}
 
-    .mock-btn-secondary {
-      background: #e0e0e0;
-      color: #333;
+// 检查单条规则能否匹配请求（发自 pageUrl 页面），列出所有未命中的原因，供规则测试使用
+function diagnoseRule(rule: MockRule, ctx: RequestContext, pageUrl: string): RuleDiagnosis {
+  const reasons: string[] = [];
+  const warnings: string[] = [];
+
+  if (!rule.enabled) {
+    reasons.push(getActiveScenario() ? '当前场景未启用此规则' : '规则已禁用');
+  }
+
+  // 生效页面匹配
+  if (!isRuleActiveOnPage(rule, pageUrl)) {
+    reasons.push(`生效页面 ${rule.pageUrlPattern} 不包含页面 ${getPageHost(pageUrl) || pageUrl}`);
+  }
+
+  // 方法匹配
+  if (rule.method !== 'ALL' && rule.method !== ctx.method.toUpperCase()) {
+    reasons.push(`请求方法不匹配：规则为 ${rule.method}，请求为 ${ctx.method.toUpperCase()}`);
+  }
+
+  // URL 匹配
+  let regexError = '';
+  if (!rule.urlMatchType || rule.urlMatchType === 'regex') {
+    try {
+      new RegExp(rule.urlPattern);
+    } catch (e) {
+      regexError = (e as Error).message;
+      if (!rule.urlMatchType) warnings.push(`URL 匹配规则不是有效的正则表达式（${regexError}），已按字符串包含匹配`);
+    }
+  }
+  const params = matchRuleUrl(rule, ctx);
+  if (!params) {
+    const target = rule.urlMatchType ? safeDecodeURI(getUrlMatchTarget(rule, ctx)) : ctx.rawUrl;
+    if (regexError) {
+      reasons.push(rule.urlMatchType ? `URL 匹配规则不是有效的正则表达式（${regexError}）` : 'URL 不包含匹配规则中的字符串');
+    } else if ((!rule.urlMatchType || rule.urlMatchType === 'regex') && target.includes(rule.urlPattern)) {
+      reasons.push('URL 不匹配：地址中包含该字符串，但按正则解析时未命中，? . + ( 等特殊字符需要转义（如 \\?）');
+    } else {
+      reasons.push(rule.urlMatchType ? `URL 不匹配（按${urlMatchTypeLabels[rule.urlMatchType]}匹配 ${target}）` : 'URL 不匹配');
     }
+  }
 
-    .mock-btn-secondary:hover {
-      background: #d0d0d0;
+  // 请求条件匹配
+  (rule.matchers || []).forEach(matcher => {
+    if (!testMatcher(matcher, ctx)) {
+      const actual = getMatcherValue(matcher, ctx);
+      const actualStr = actual === undefined || actual === null ? '不存在' : typeof actual === 'object' ? JSON.stringify(actual) : String(actual);
+      reasons.push(`请求条件不满足：${describeMatcher(matcher)}（实际值：${actualStr}）`);
     }
+  });
 
-    .mock-form-group {
-      margin-bottom: 16px;
+  return { rule, matched: reasons.length === 0, reasons, warnings, params: params || {} };
+}
+
+// 按顺序检查所有规则，命中但排在第一条命中规则之后的规则标记为被遮蔽
+function diagnoseRules(ctx: RequestContext, pageUrl: string): RuleDiagnosis[] {
+  let winner: MockRule | undefined;
+  return getEffectiveRules().map(rule => {
+    const diagnosis = diagnoseRule(rule, ctx, pageUrl);
+    if (diagnosis.matched) {
+      if (winner) {
+        diagnosis.shadowedBy = winner;
+      } else {
+        winner = rule;
+      }
     }
+    return diagnosis;
+  });
+}
 
-    .mock-form-label {
-      display: block;
-      margin-bottom: 6px;
-      font-weight: 500;
-      color: #333;
-      font-size: 14px;
+// 匹配规则
+function matchRule(ctx: RequestContext): MockRule | null {
+  if (!config.enabled) return null;
+
+  const url = ctx.rawUrl;
+  const method = ctx.method;
+
+  for (const rule of getEffectiveRules()) {
+    if (!rule.enabled) continue;
+
+    // 生效页面匹配
+    if (!isRuleActiveOnPage(rule)) continue;
+
+    // 方法匹配
+    if (rule.method !== 'ALL' && rule.method !== method.toUpperCase()) {
+      continue;
     }
 
-    .mock-form-input,
-    .mock-form-select,
-    .mock-form-textarea {
-      width: 100%;
-      padding: 8px 12px;
-      border: 1px solid #ddd;
-      border-radius: 4px;
-      font-size: 14px;
-      font-family: inherit;
-      box-sizing: border-box;
+    // URL 匹配
+    const params = matchRuleUrl(rule, ctx);
+    let matched = !!params;
+
+    // 请求条件匹配
+    if (matched && rule.matchers && rule.matchers.length > 0) {
+      matched = rule.matchers.every(matcher => testMatcher(matcher, ctx));
     }
 
-    .mock-form-textarea {
-      min-height: 120px;
-      font-family: 'Monaco', 'Menlo', 'Consolas', monospace;
+    if (matched) {
+      ctx.params = params!;
+      console.log(`✅ Mock 规则匹配成功: [${rule.name}]`, {
+        url,
+        method,
+        pattern: rule.urlPattern
+      });
+      return rule;
     }
+  }
 
-    .mock-toggle-btn {
-      position: fixed;
-      bottom: 20px;
-      right: 20px;
-      width: 56px;
-      height: 56px;
-      border-radius: 50%;
-      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
-      color: white;
-      border: none;
-      font-size: 24px;
-      cursor: pointer;
-      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
-      z-index: 999998;
-      transition: all 0.3s;
+  return null;
+}
+
+// 规则的匹配或响应生成是否依赖请求体（请求体条件、模板、JS 函数）
+function ruleNeedsRequestBody(rule: MockRule): boolean {
+  if ((rule.matchers || []).some(matcher => matcher.source === 'body')) return true;
+  if (rule.responseType === 'function') return true;
+  const sources = [
+    rule.responseData,
+    rule.patch?.data,
+    ...(rule.sequence?.steps || []).map(step => step.responseData),
+    ...(rule.stream?.events || []).map(event => event.data),
+    ...(rule.responseHeaders || []).map(header => header.value),
+  ];
+  return sources.some(source => !!source && source.includes('{{'));
+}
+
+// 是否有可能命中该请求且依赖请求体的规则（只检查生效页面、方法和 URL）
+function hasRuleNeedingRequestBody(ctx: RequestContext): boolean {
+  if (!config.enabled) return false;
+  return getEffectiveRules().some(rule =>
+    rule.enabled
+    && isRuleActiveOnPage(rule)
+    && (rule.method === 'ALL' || rule.method === ctx.method.toUpperCase())
+    && ruleNeedsRequestBody(rule)
+    && !!matchRuleUrl(rule, ctx)
+  );
+}
+
+// 读取 Request 对象的文本请求体，没有请求体或非文本类型时返回空字符串
+async function readRequestBody(request: Request): Promise<string> {
+  if (!request.body || request.bodyUsed) return '';
+  const contentType = request.headers.get('content-type') || '';
+  if (!contentType || !isTextContentType(contentType)) return '';
+  return request.clone().text().catch(() => '');
+}
+
+// 将请求体序列化为字符串（无法同步读取的类型返回空字符串）
+function serializeRequestBody(body: unknown): string {
+  if (body === null || body === undefined) return '';
+  if (typeof body === 'string') return body;
+  if (body instanceof URLSearchParams) return body.toString();
+  if (typeof FormData !== 'undefined' && body instanceof FormData) {
+    const params = new URLSearchParams();
+    body.forEach((value, key) => {
+      if (typeof value === 'string') params.append(key, value);
+    });
+    return params.toString();
+  }
+  return '';
+}
+
+// 解析请求体（JSON 或表单）
+function parseRequestBody(rawBody: string, contentType: string): any {
+  if (!rawBody) return null;
+  try {
+    return JSON.parse(rawBody);
+  } catch (e) {
+    // 不是 JSON，继续尝试表单格式
+  }
+  if (contentType.includes('application/x-www-form-urlencoded') || /^[^=&\s]+=[^&]*(&[^=&\s]+=[^&]*)*$/.test(rawBody)) {
+    return Object.fromEntries(new URLSearchParams(rawBody));
+  }
+  return rawBody;
+}
+
+// 将 HeadersInit 转换为普通对象
+function headersToRecord(headers?: HeadersInit): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (!headers) return record;
+  new Headers(headers).forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+// 构建请求上下文
+function createRequestContext(url: string, method: string, headers: Record<string, string>, rawBody: string): RequestContext {
+  let parsed: URL | null = null;
+  try {
+    parsed = new URL(url, location.href);
+  } catch (e) {
+    // 无法解析的地址按原样使用
+  }
+
+  const lowerHeaders: Record<string, string> = {};
+  Object.keys(headers).forEach(key => {
+    lowerHeaders[key.toLowerCase()] = headers[key];
+  });
+
+  const path = parsed ? parsed.pathname : url.split('?')[0];
+
+  return {
+    rawUrl: url,
+    url: parsed ? parsed.href : url,
+    method: method.toUpperCase(),
+    path,
+    segments: path.split('/').filter(Boolean).map(segment => {
+      try {
+        return decodeURIComponent(segment);
+      } catch (e) {
+        return segment;
+      }
+    }),
+    query: parsed ? Object.fromEntries(parsed.searchParams) : {},
+    headers: lowerHeaders,
+    rawBody,
+    body: parseRequestBody(rawBody, lowerHeaders['content-type'] || ''),
+    params: {},
+  };
+}
+
+// 设置异步读取到的请求体
+function setRequestContextBody(ctx: RequestContext, rawBody: string) {
+  ctx.rawBody = rawBody;
+  ctx.body = parseRequestBody(rawBody, ctx.headers['content-type'] || '');
+}
+
+// 模板节点
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'expr'; expr: string; raw: string }
+  | { type: 'repeat'; args: string[]; children: TemplateNode[] };
+
+// 拆分模板表达式参数（支持引号包裹的参数）
+function splitTemplateArgs(expr: string): string[] {
+  const args: string[] = [];
+  const re = /"([^"]*)"|'([^']*)'|(\S+)/g;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(expr))) {
+    args.push(m[1] ?? m[2] ?? m[3]);
+  }
+  return args;
+}
+
+// 解析模板为节点树
+function parseTemplate(source: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: TemplateNode[][] = [];
+  let current = root;
+  let last = 0;
+  const re = /\{\{\s*([\s\S]+?)\s*\}\}/g;
+  let m: RegExpExecArray | null;
+
+  while ((m = re.exec(source))) {
+    if (m.index > last) {
+      current.push({ type: 'text', value: source.slice(last, m.index) });
     }
+    const expr = m[1];
+    if (/^#repeat\b/.test(expr)) {
+      const node: TemplateNode = { type: 'repeat', args: splitTemplateArgs(expr).slice(1), children: [] };
+      current.push(node);
+      stack.push(current);
+      current = node.children;
+    } else if (expr === '/repeat' && stack.length > 0) {
+      current = stack.pop()!;
+    } else {
+      current.push({ type: 'expr', expr, raw: m[0] });
+    }
+    last = re.lastIndex;
+  }
 
-    .mock-toggle-btn:hover {
-      transform: scale(1.1);
-      box-shadow: 0 6px 16px rgba(0, 0, 0, 0.2);
+  if (last < source.length) {
+    current.push({ type: 'text', value: source.slice(last) });
+  }
+  return root;
+}
+
+// 按路径读取对象字段，支持 a.b[0].c 形式（只读取自有属性，不会读到 constructor 等原型属性）
+function getValueByPath(target: any, path: string): any {
+  const keys = path.replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+  let value = target;
+  for (const key of keys) {
+    if (value === null || value === undefined) return undefined;
+    if (!Object.prototype.hasOwnProperty.call(value, key)) return undefined;
+    value = value[key];
+  }
+  return value;
+}
+
+// 生成 UUID
+function generateUUID(): string {
+  if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+    return crypto.randomUUID();
+  }
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.random() * 16 | 0;
+    return (c === 'x' ? r : (r & 0x3 | 0x8)).toString(16);
+  });
+}
+
+// 生成 [min, max] 区间内的随机整数
+function randomInt(min: number, max: number): number {
+  return Math.floor(Math.random() * (max - min + 1)) + min;
+}
+
+// 计算模板表达式，无法识别时返回 undefined
+function evaluateTemplateExpression(expr: string, scope: Record<string, any>): any {
+  const [name, ...args] = splitTemplateArgs(expr);
+
+  switch (name) {
+    case 'uuid':
+      return generateUUID();
+    case 'now':
+      return args[0] === 'iso' ? new Date().toISOString() : Date.now();
+    case 'randomInt': {
+      const min = parseInt(args[0] ?? '0');
+      const max = parseInt(args[1] ?? '100');
+      return randomInt(min, max);
+    }
+    case 'randomFloat': {
+      const min = parseFloat(args[0] ?? '0');
+      const max = parseFloat(args[1] ?? '1');
+      const digits = parseInt(args[2] ?? '2');
+      return parseFloat((Math.random() * (max - min) + min).toFixed(digits));
     }
+    case 'pick':
+      return args.length > 0 ? args[randomInt(0, args.length - 1)] : undefined;
+  }
 
-    .mock-toggle-btn.disabled {
-      background: linear-gradient(135deg, #ccc 0%, #999 100%);
+  if (args.length > 0) return undefined;
+
+  const [root] = name.split(/[.[]/);
+  if (!Object.prototype.hasOwnProperty.call(scope, root)) return undefined;
+
+  // 请求头不区分大小写
+  if (root === 'headers') {
+    return getValueByPath(scope.headers, name.slice('headers.'.length).toLowerCase());
+  }
+  return getValueByPath(scope, name);
+}
+
+// 更新 JSON 扫描状态：是否位于字符串内、上一个字符是否为转义符
+function scanJsonText(text: string, state: { inString: boolean; escaped: boolean }) {
+  for (const char of text) {
+    if (state.escaped) {
+      state.escaped = false;
+    } else if (char === '\\' && state.inString) {
+      state.escaped = true;
+    } else if (char === '"') {
+      state.inString = !state.inString;
     }
+  }
+}
 
-    .mock-status {
-      display: inline-block;
-      padding: 4px 8px;
-      border-radius: 4px;
-      font-size: 12px;
-      font-weight: 500;
+// 渲染模板节点；json 不为空时按 JSON 扫描，字符串内插入的值会被转义
+function renderTemplateNodes(nodes: TemplateNode[], scope: Record<string, any>, json?: { inString: boolean; escaped: boolean }): string {
+  return nodes.map(node => {
+    if (node.type === 'text') {
+      if (json) scanJsonText(node.value, json);
+      return node.value;
     }
 
-    .mock-status.enabled {
-      background: #d4edda;
-      color: #155724;
+    if (node.type === 'repeat') {
+      const min = parseInt(node.args[0] ?? '1');
+      const max = node.args[1] !== undefined ? parseInt(node.args[1]) : min;
+      const count = randomInt(Math.max(0, min), Math.max(0, min, max));
+      const items: string[] = [];
+      for (let i = 0; i < count; i++) {
+        items.push(renderTemplateNodes(node.children, { ...scope, '@index': i }, json));
+      }
+      return items.join(',');
+    }
+
+    const value = evaluateTemplateExpression(node.expr, scope);
+    if (value === undefined) {
+      if (json) scanJsonText(node.raw, json);
+      return node.raw;
+    }
+    const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+    return json?.inString ? JSON.stringify(text).slice(1, -1) : text;
+  }).join('');
+}
+
+// 渲染响应模板；json 为 true 时插入 JSON 字符串内的值会按 JSON 转义
+function renderTemplate(source: string, ctx: RequestContext, json = false): string {
+  if (!source.includes('{{')) return source;
+  return renderTemplateNodes(parseTemplate(source), { ...ctx }, json ? { inString: false, escaped: false } : undefined);
+}
+
+// 各响应类型的 Content-Type（JS 函数默认按 JSON 返回）
+const responseContentTypes: Record<MockRule['responseType'], string> = {
+  json: 'application/json',
+  text: 'text/plain',
+  xml: 'application/xml',
+  html: 'text/html',
+  csv: 'text/csv',
+  form: 'application/x-www-form-urlencoded',
+  ndjson: 'application/x-ndjson',
+  binary: 'application/octet-stream',
+  function: 'application/json',
+};
+
+// 根据响应类型获取 Content-Type
+function getContentType(responseType: MockRule['responseType']): string {
+  return responseContentTypes[responseType] || 'application/json';
+}
+
+// 根据 Content-Type 推断文本响应类型
+function getResponseTypeFromContentType(contentType: string): MockRule['responseType'] {
+  const essence = contentType.split(';')[0].trim().toLowerCase();
+  if (essence === 'application/x-ndjson' || essence === 'application/jsonl' || essence === 'application/json-seq') return 'ndjson';
+  if (essence.includes('json')) return 'json';
+  if (essence === 'text/html' || essence === 'application/xhtml+xml') return 'html';
+  if (essence === 'text/xml' || essence === 'application/xml' || essence.endsWith('+xml')) return 'xml';
+  if (essence === 'text/csv') return 'csv';
+  if (essence === 'application/x-www-form-urlencoded') return 'form';
+  return 'text';
+}
+
+// 解析 CSV（RFC 4180，支持引号包裹的字段），格式错误时抛出异常
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let quoteLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+        if (i + 1 < text.length && !/[,\r\n]/.test(text[i + 1])) {
+          throw new SyntaxError(`第 ${line} 行：引号后只能是逗号或换行`);
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+      quoteLine = line;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      line++;
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new SyntaxError(`第 ${quoteLine} 行：引号没有闭合`);
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// 把 JSON 中的模板标签替换为等长的占位内容，便于校验含模板的 JSON：字符串内替换为空格，字符串外替换为 0，区块标签替换为空格
+function maskJsonTemplate(source: string): string {
+  if (!source.includes('{{')) return source;
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '{' && source[i + 1] === '{') {
+      const end = source.indexOf('}}', i + 2);
+      if (end !== -1) {
+        const tag = source.slice(i, end + 2);
+        const isBlock = /^\{\{\s*[#/]/.test(tag);
+        result += inString || isBlock ? ' '.repeat(tag.length) : '0' + ' '.repeat(tag.length - 1);
+        i = end + 1;
+        continue;
+      }
+    }
+    if (inString && char === '\\') {
+      result += char + (source[i + 1] ?? '');
+      i++;
+      continue;
+    }
+    if (char === '"') inString = !inString;
+    result += char;
+  }
+  return result;
+}
+
+// 查找 JSON 语法错误，返回错误信息和出错的字符位置；合法时返回 null
+function findJsonError(text: string): { message: string; position: number } | null {
+  let i = 0;
+  let error: { message: string; position: number } | null = null;
+  const fail = (message: string, position = i): never => {
+    error = { message, position };
+    throw new SyntaxError(message);
+  };
+  const skipWhitespace = () => {
+    while (i < text.length && ' \t\n\r'.includes(text[i])) i++;
+  };
+  const unexpected = () => i >= text.length ? '内容意外结束' : `意外的字符 ${JSON.stringify(text[i])}`;
+  const numberPattern = /-?(0|[1-9]\d*)(\.\d+)?([eE][+-]?\d+)?/y;
+
+  const parseString = () => {
+    const start = i++;
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '"') {
+        i++;
+        return;
+      }
+      if (char === '\\') {
+        const next = text[i + 1];
+        if (next === 'u') {
+          if (!/^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6))) fail('无效的 \\u 转义');
+          i += 6;
+          continue;
+        }
+        if (next === undefined || !'"\\/bfnrt'.includes(next)) fail('无效的转义字符');
+        i += 2;
+        continue;
+      }
+      if (char < ' ') fail('字符串中不能直接包含换行等控制字符');
+      i++;
+    }
+    fail('字符串没有闭合', start);
+  };
+
+  const parseValue = (): void => {
+    skipWhitespace();
+    const char = text[i];
+    if (char === '{' || char === '[') {
+      const close = char === '{' ? '}' : ']';
+      i++;
+      skipWhitespace();
+      if (text[i] === close) {
+        i++;
+        return;
+      }
+      for (;;) {
+        if (char === '{') {
+          skipWhitespace();
+          if (text[i] !== '"') fail(i >= text.length ? unexpected() : '属性名必须是双引号包裹的字符串');
+          parseString();
+          skipWhitespace();
+          if (text[i] !== ':') fail('属性名后缺少冒号');
+          i++;
+        }
+        parseValue();
+        skipWhitespace();
+        if (text[i] === ',') {
+          i++;
+          // 末尾多余的逗号
+          skipWhitespace();
+          if (text[i] === close) fail(`${close} 前有多余的逗号`);
+          continue;
+        }
+        if (text[i] === close) {
+          i++;
+          return;
+        }
+        fail(i >= text.length ? unexpected() : `缺少逗号或 ${close}`);
+      }
+    }
+    if (char === '"') return parseString();
+    if (char === '-' || (char >= '0' && char <= '9')) {
+      numberPattern.lastIndex = i;
+      const match = numberPattern.exec(text);
+      if (!match) fail('无效的数字');
+      i += match![0].length;
+      return;
+    }
+    for (const literal of ['true', 'false', 'null']) {
+      if (text.startsWith(literal, i)) {
+        i += literal.length;
+        return;
+      }
+    }
+    fail(unexpected());
+  };
+
+  try {
+    parseValue();
+    skipWhitespace();
+    if (i < text.length) fail('JSON 结束后还有多余的内容');
+  } catch (e) {
+    // 错误已记录在 error 中
+  }
+  return error;
+}
+
+// 校验 JSON（模板标签按占位内容处理），返回错误信息和所在的行、列（从 1 开始）
+function checkJson(source: string): { message: string; line: number; column: number; position: number } | null {
+  const error = findJsonError(maskJsonTemplate(source));
+  if (!error) return null;
+  const before = source.slice(0, error.position).split('\n');
+  return { ...error, line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+// 校验文本响应数据是否符合响应类型，返回错误信息；JSON 以外的格式含模板标签时无法静态校验，直接通过
+function validateResponseData(responseType: MockRule['responseType'], source: string): string | null {
+  // 空响应体总是合法（如 204、DELETE 请求的响应）
+  if (!source.trim()) return null;
+  if (responseType === 'json') {
+    const error = checkJson(source);
+    return error ? `JSON 第 ${error.line} 行第 ${error.column} 列：${error.message}` : null;
+  }
+  if (source.includes('{{')) return null;
+
+  switch (responseType) {
+    case 'xml': {
+      const doc = new DOMParser().parseFromString(source, 'application/xml');
+      const error = doc.getElementsByTagName('parsererror')[0];
+      return error ? `XML 格式错误：${(error.textContent || '').trim().split('\n')[0]}` : null;
+    }
+    case 'html':
+      return /<[a-z!]/i.test(source) ? null : 'HTML 内容中没有任何标签';
+    case 'csv': {
+      try {
+        const rows = parseCsv(source);
+        const columns = rows[0]?.length || 0;
+        const index = rows.findIndex(row => row.length !== columns);
+        return index === -1 ? null : `CSV 第 ${index + 1} 行有 ${rows[index].length} 列，表头有 ${columns} 列`;
+      } catch (e) {
+        return `CSV 格式错误：${e instanceof Error ? e.message : e}`;
+      }
+    }
+    case 'form': {
+      const pairs = source.trim().split('&').filter(Boolean);
+      for (let i = 0; i < pairs.length; i++) {
+        if (/\s/.test(pairs[i])) return `表单第 ${i + 1} 个参数含有未编码的空白字符`;
+        try {
+          const [name] = pairs[i].split('=');
+          if (!decodeURIComponent(name.replace(/\+/g, ' '))) return `表单第 ${i + 1} 个参数缺少名称`;
+          decodeURIComponent(pairs[i].replace(/\+/g, ' '));
+        } catch (e) {
+          return `表单第 ${i + 1} 个参数的百分号编码无效`;
+        }
+      }
+      return null;
+    }
+    case 'ndjson': {
+      const lines = source.split('\n');
+      for (let i = 0; i < lines.length; i++) {
+        if (!lines[i].trim()) continue;
+        try {
+          JSON.parse(lines[i]);
+        } catch (e) {
+          return `NDJSON 第 ${i + 1} 行不是合法的 JSON：${e instanceof Error ? e.message : e}`;
+        }
+      }
+      return null;
+    }
+  }
+  return null;
+}
+
+// 字节转 base64
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// 解析二进制响应数据：data URL 或纯 base64（视为 application/octet-stream）
+function parseBinaryData(value: string): { mimeType: string; bytes: Uint8Array<ArrayBuffer> } {
+  const source = value.trim();
+  const match = /^data:([^,]*),/i.exec(source);
+  if (!match) {
+    try {
+      return { mimeType: 'application/octet-stream', bytes: Uint8Array.from(atob(source.replace(/\s+/g, '')), c => c.charCodeAt(0)) };
+    } catch (e) {
+      throw new TypeError('二进制数据不是合法的 base64 或 data URL');
+    }
+  }
+
+  const params = match[1].split(';');
+  const isBase64 = params[params.length - 1].trim().toLowerCase() === 'base64';
+  if (isBase64) params.pop();
+  const mimeType = params.join(';').trim() || 'text/plain;charset=US-ASCII';
+  const payload = source.slice(match[0].length);
+  try {
+    const bytes = isBase64
+      ? Uint8Array.from(atob(payload.replace(/\s+/g, '')), c => c.charCodeAt(0))
+      : new TextEncoder().encode(decodeURIComponent(payload));
+    return { mimeType, bytes };
+  } catch (e) {
+    throw new TypeError('data URL 内容无法解码');
+  }
+}
+
+// 描述二进制响应数据（类型和大小），数据无效时返回错误信息
+function describeBinaryData(value: string): string {
+  try {
+    const { mimeType, bytes } = parseBinaryData(value);
+    const size = bytes.length < 1024 ? `${bytes.length} B` : bytes.length < 1024 * 1024 ? `${(bytes.length / 1024).toFixed(1)} KB` : `${(bytes.length / 1024 / 1024).toFixed(1)} MB`;
+    return `${mimeType}，${size}`;
+  } catch (e) {
+    return e instanceof Error ? e.message : String(e);
+  }
+}
+
+// Mock 响应的响应体字节
+function getResponseBytes(mockResponse: MockResponse): Uint8Array {
+  return mockResponse.bytes || new TextEncoder().encode(mockResponse.body);
+}
+
+// 将 Mock 响应记录为请求日志中的响应（模拟网络错误和超时时没有响应）
+function captureMockResponse(mockResponse: MockResponse): CapturedResponse | undefined {
+  if (mockResponse.failure === 'networkError' || mockResponse.failure === 'timeout') return undefined;
+  const { status, headers, body, bytes } = mockResponse;
+  return bytes ? { status, headers, body: bytesToBase64(bytes), encoding: 'base64' } : { status, headers, body };
+}
+
+// 编译 JS 函数响应（按源码缓存）
+function compileHandler(source: string): Function {
+  let handler = handlerCache.get(source);
+  if (!handler) {
+    handler = new Function(`return (${source});`)();
+    if (typeof handler !== 'function') {
+      throw new TypeError('响应数据必须是一个函数');
+    }
+    handlerCache.set(source, handler);
+  }
+  return handler!;
+}
+
+// 运行 JS 函数响应（函数返回 Promise 时结果也是 Promise）
+function runHandler(source: string, rule: MockRule, ctx: RequestContext): HandlerResult | Promise<HandlerResult> {
+  const handler = compileHandler(source);
+  const state = handlerStates[rule.id] || (handlerStates[rule.id] = {});
+  const result = handler({
+    url: ctx.url,
+    method: ctx.method,
+    path: ctx.path,
+    query: ctx.query,
+    headers: ctx.headers,
+    body: ctx.body,
+    params: ctx.params,
+    state,
+  });
+  // 只有包含 status、headers、body、delay 之一的对象才视为响应描述，其余返回值（如 { users: [] }）直接作为响应体
+  const isDescriptor = (value: any) => value && typeof value === 'object' && !Array.isArray(value)
+    && ['status', 'headers', 'body', 'delay'].some(key => Object.prototype.hasOwnProperty.call(value, key));
+  const normalize = (value: any): HandlerResult => isDescriptor(value) ? value : { body: value };
+  return result && typeof result.then === 'function' ? Promise.resolve(result).then(normalize) : normalize(result);
+}
+
+// 模拟 Set-Cookie（脚本无法设置 HttpOnly Cookie，忽略该属性）
+function applySetCookie(value: string) {
+  try {
+    document.cookie = value.replace(/;\s*HttpOnly\b/gi, '');
+  } catch (e) {
+    console.error('Mock Cookie 写入失败:', e);
+  }
+}
+
+// 收集规则的自定义响应头，返回其中的 Set-Cookie
+function collectRuleHeaders(rule: MockRule, ctx: RequestContext, headers: Record<string, string>): string[] {
+  const cookies: string[] = [];
+
+  (rule.responseHeaders || []).forEach(header => {
+    const name = header.name.trim().toLowerCase();
+    if (!name) return;
+    const value = renderTemplate(header.value, ctx);
+
+    if (name === 'set-cookie') {
+      cookies.push(value);
+      return;
+    }
+    headers[name] = name in headers && name !== 'content-type' ? `${headers[name]}, ${value}` : value;
+  });
+
+  return cookies;
+}
+
+// 构建 Mock 响应；sync 为 true 时（同步 XHR）必须立即得到结果，JS 函数不能返回 Promise
+function composeMockResponse(rule: MockRule, ctx: RequestContext, sync: boolean): MockResponse | Promise<MockResponse> {
+  const headers: Record<string, string> = {
+    'content-type': rule.responseMode === 'stream' ? 'text/event-stream' : getContentType(rule.responseType),
+  };
+  const cookies = collectRuleHeaders(rule, ctx, headers);
+
+  // 事件流模式：每轮播放时重新渲染事件数据，响应体为一轮事件的文本
+  if (rule.responseMode === 'stream' && rule.stream) {
+    const stream = rule.stream;
+    const events = () => stream.events.map(event => ({ ...event, data: renderTemplate(event.data, ctx) }));
+    return {
+      status: rule.statusCode,
+      headers: { 'cache-control': 'no-cache', ...headers },
+      cookies,
+      body: events().map(formatStreamEvent).join(''),
+      delay: rule.delay,
+      stream: { events, onEnd: stream.onEnd },
+    };
+  }
+
+  // 响应序列模式下使用当前步骤的响应
+  const step: SequenceStep = (rule.responseMode === 'sequence' && nextSequenceStep(rule)) || rule;
+
+  if (rule.responseType !== 'function' && rule.responseType !== 'binary') {
+    return {
+      status: step.statusCode,
+      headers,
+      cookies,
+      body: renderTemplate(step.responseData, ctx, rule.responseType === 'json'),
+      delay: step.delay,
+    };
+  }
+
+  const finish = (result: HandlerResult): MockResponse => {
+    Object.keys(result.headers || {}).forEach(key => {
+      const name = key.toLowerCase();
+      const value = result.headers![key];
+      if (name === 'set-cookie') {
+        cookies.push(...(Array.isArray(value) ? value : [value]));
+      } else {
+        headers[name] = Array.isArray(value) ? value.join(', ') : String(value);
+      }
+    });
+    if (typeof result.body === 'string' && !result.headers?.['content-type'] && !rule.responseHeaders?.some(h => h.name.toLowerCase() === 'content-type')) {
+      headers['content-type'] = 'text/plain';
+    }
+
+    return {
+      status: result.status ?? step.statusCode,
+      headers,
+      cookies,
+      body: result.body === undefined ? '' : typeof result.body === 'string' ? result.body : JSON.stringify(result.body),
+      delay: result.delay ?? step.delay,
+    };
+  };
+
+  const fail = (e: unknown): MockResponse => {
+    const message = e instanceof Error ? e.message : String(e);
+    console.error(`Mock 响应构建失败: [${rule.name}]`, e);
+    return {
+      status: 500,
+      headers: { 'content-type': 'application/json' },
+      cookies: [],
+      body: JSON.stringify({ error: message }),
+      delay: step.delay,
+      error: message,
+    };
+  };
+
+  // 二进制响应：未自定义 Content-Type 时使用 data URL 中的类型
+  if (rule.responseType === 'binary') {
+    try {
+      const { mimeType, bytes } = parseBinaryData(step.responseData);
+      if (!rule.responseHeaders?.some(h => h.name.trim().toLowerCase() === 'content-type')) {
+        headers['content-type'] = mimeType;
+      }
+      return { status: step.statusCode, headers, cookies, body: '', bytes, delay: step.delay };
+    } catch (e) {
+      return fail(e);
+    }
+  }
+
+  try {
+    const result = runHandler(step.responseData, rule, ctx);
+    if (!(result instanceof Promise)) return finish(result);
+    if (sync) throw new TypeError('同步 XHR 请求中 JS 函数不能返回 Promise');
+    return result.then(finish).catch(fail);
+  } catch (e) {
+    return fail(e);
+  }
+}
+
+// 构建 Mock 响应
+async function buildMockResponse(rule: MockRule, ctx: RequestContext): Promise<MockResponse> {
+  return composeMockResponse(rule, ctx, false);
+}
+
+// 同步构建 Mock 响应（用于同步 XHR）
+function buildMockResponseSync(rule: MockRule, ctx: RequestContext): MockResponse {
+  return composeMockResponse(rule, ctx, true) as MockResponse;
+}
+
+// 深拷贝 JSON 值
+function cloneJSON<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+// RFC 7396 JSON 合并补丁
+function applyMergePatch(target: any, patch: any): any {
+  if (patch === null || typeof patch !== 'object' || Array.isArray(patch)) {
+    return cloneJSON(patch);
+  }
+  const result = target !== null && typeof target === 'object' && !Array.isArray(target) ? { ...target } : {};
+  Object.keys(patch).forEach(key => {
+    if (patch[key] === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], patch[key]);
+    }
+  });
+  return result;
+}
+
+// 解析 JSON Pointer（RFC 6901）
+function parseJSONPointer(pointer: string): string[] {
+  if (pointer === '') return [];
+  if (!pointer.startsWith('/')) throw new Error(`无效的 JSON Pointer: ${pointer}`);
+  return pointer.slice(1).split('/').map(token => token.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+// RFC 6902 JSON Patch
+function applyJSONPatch(doc: any, operations: any[]): any {
+  let result = cloneJSON(doc);
+
+  const resolveParent = (tokens: string[]) => {
+    let parent = result;
+    for (const token of tokens.slice(0, -1)) {
+      if (parent === null || typeof parent !== 'object' || !(token in parent)) {
+        throw new Error(`路径不存在: /${tokens.join('/')}`);
+      }
+      parent = parent[token];
+    }
+    return parent;
+  };
+
+  const getValue = (path: string) => {
+    let value = result;
+    for (const token of parseJSONPointer(path)) {
+      if (value === null || typeof value !== 'object' || !(token in value)) {
+        throw new Error(`路径不存在: ${path}`);
+      }
+      value = value[token];
+    }
+    return value;
+  };
+
+  const remove = (path: string) => {
+    const tokens = parseJSONPointer(path);
+    const parent = resolveParent(tokens);
+    const key = tokens[tokens.length - 1];
+    const value = getValue(path);
+    if (Array.isArray(parent)) {
+      parent.splice(parseInt(key), 1);
+    } else {
+      delete parent[key];
+    }
+    return value;
+  };
+
+  const add = (path: string, value: any) => {
+    const tokens = parseJSONPointer(path);
+    if (tokens.length === 0) {
+      result = value;
+      return;
+    }
+    const parent = resolveParent(tokens);
+    const key = tokens[tokens.length - 1];
+    if (Array.isArray(parent)) {
+      parent.splice(key === '-' ? parent.length : parseInt(key), 0, value);
+    } else if (parent !== null && typeof parent === 'object') {
+      parent[key] = value;
+    } else {
+      throw new Error(`路径不存在: ${path}`);
+    }
+  };
+
+  operations.forEach(op => {
+    switch (op.op) {
+      case 'add':
+        add(op.path, cloneJSON(op.value));
+        break;
+      case 'remove':
+        remove(op.path);
+        break;
+      case 'replace':
+        remove(op.path);
+        add(op.path, cloneJSON(op.value));
+        break;
+      case 'move':
+        add(op.path, remove(op.from));
+        break;
+      case 'copy':
+        add(op.path, cloneJSON(getValue(op.from)));
+        break;
+      case 'test':
+        if (JSON.stringify(getValue(op.path)) !== JSON.stringify(op.value)) {
+          throw new Error(`test 操作失败: ${op.path}`);
+        }
+        break;
+      default:
+        throw new Error(`不支持的操作: ${op.op}`);
+    }
+  });
+
+  return result;
+}
+
+// 按路径设置字段，缺失的中间层级会自动创建
+function setValueByPath(target: any, path: string, value: any) {
+  const keys = path.replace(/^\$\.?/, '').replace(/\[(\w+)\]/g, '.$1').split('.').filter(Boolean);
+  let current = target;
+  keys.forEach((key, i) => {
+    if (i === keys.length - 1) {
+      current[key] = value;
+      return;
+    }
+    if (current[key] === null || typeof current[key] !== 'object') {
+      current[key] = /^\d+$/.test(keys[i + 1]) ? [] : {};
+    }
+    current = current[key];
+  });
+}
+
+// 修改真实响应体（非 JSON 响应抛出异常）
+function applyResponsePatch(patch: ResponsePatch, ctx: RequestContext, body: any): any {
+  const data = JSON.parse(renderTemplate(patch.data, ctx, true));
+  const source = typeof body === 'string' ? JSON.parse(body) : body;
+
+  if (patch.type === 'merge') return applyMergePatch(source, data);
+  if (patch.type === 'jsonPatch') return applyJSONPatch(source, Array.isArray(data) ? data : [data]);
+
+  const result = cloneJSON(source);
+  Object.keys(data).forEach(path => setValueByPath(result, path, data[path]));
+  return result;
+}
+
+// 修改真实的 Fetch 响应
+async function patchFetchResponse(rule: MockRule, ctx: RequestContext, response: Response, log: RequestLog | null): Promise<Response> {
+  // 不透明响应无法读取和修改，原样返回
+  if (response.type === 'opaque' || response.type === 'opaqueredirect') {
+    if (log) log.error = '不透明响应（no-cors）无法修改，已返回真实响应';
+    return response;
+  }
+
+  const patch = rule.patch || { type: 'merge', data: '{}' };
+
+  // 响应体已重新生成，原始的长度和压缩方式不再适用
+  const headers = new Headers(response.headers);
+  headers.delete('content-length');
+  headers.delete('content-encoding');
+  const ruleHeaders: Record<string, string> = {};
+  const cookies = collectRuleHeaders(rule, ctx, ruleHeaders);
+  Object.keys(ruleHeaders).forEach(name => headers.set(name, ruleHeaders[name]));
+
+  // 没有响应体（如 HEAD 请求、204 响应）时只修改状态码和响应头
+  let body: string | null = null;
+  if (response.body !== null) {
+    body = await response.clone().text();
+    try {
+      body = JSON.stringify(applyResponsePatch(patch, ctx, body));
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      console.error(`Mock 修改响应失败: [${rule.name}]`, e);
+      if (log) log.error = message;
+    }
+  }
+
+  cookies.forEach(applySetCookie);
+
+  // 无法用于 Response 的覆盖状态码忽略，保留真实状态码
+  let status = response.status;
+  if (patch.statusCode && isValidStatusCode(patch.statusCode)) {
+    status = patch.statusCode;
+  } else if (patch.statusCode && log) {
+    log.error = `状态码 ${patch.statusCode} 无法用于 Fetch 响应（只支持 200-599），已保留真实状态码`;
+  }
+
+  // 204、205、304 等状态码不能带响应体
+  const patched = new Response([204, 205, 304].includes(status) ? null : body, {
+    status,
+    statusText: response.statusText,
+    headers,
+  });
+  Object.defineProperty(patched, 'url', { value: response.url });
+  Object.defineProperty(patched, 'redirected', { value: response.redirected });
+  return patched;
+}
+
+// 修改真实的 XHR 响应（在捕获阶段处理，先于页面自身的监听器）
+function patchXHRResponse(xhr: XMLHttpRequest, rule: MockRule, ctx: RequestContext, log: RequestLog | null) {
+  const onReadyStateChange = () => {
+    if (xhr.readyState !== 4) return;
+    xhr.removeEventListener('readystatechange', onReadyStateChange, true);
+    (xhr as any)._mockPatched = true;
+
+    const patch = rule.patch || { type: 'merge', data: '{}' };
+    const ruleHeaders: Record<string, string> = {};
+    const cookies = collectRuleHeaders(rule, ctx, ruleHeaders);
+
+    // responseType 为 json 时，真实响应不是 JSON 则 response 为 null，保留原样
+    if (xhr.responseType === 'json' && xhr.response === null) {
+      if (log) log.error = '真实响应不是合法的 JSON，已保留原始响应';
+    } else if (xhr.responseType === '' || xhr.responseType === 'text' || xhr.responseType === 'json') {
+      try {
+        const patched = applyResponsePatch(patch, ctx, xhr.response);
+        const text = JSON.stringify(patched);
+        Object.defineProperty(xhr, 'response', { value: xhr.responseType === 'json' ? patched : text, configurable: true });
+        if (xhr.responseType !== 'json') {
+          Object.defineProperty(xhr, 'responseText', { value: text, configurable: true });
+        }
+      } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        console.error(`Mock 修改响应失败: [${rule.name}]`, e);
+        if (log) log.error = message;
+      }
+    }
+
+    if (patch.statusCode) {
+      Object.defineProperty(xhr, 'status', { value: patch.statusCode, configurable: true });
+    }
+
+    if (Object.keys(ruleHeaders).length > 0) {
+      const originalGetResponseHeader = xhr.getResponseHeader.bind(xhr);
+      const originalGetAllResponseHeaders = xhr.getAllResponseHeaders.bind(xhr);
+      (xhr as any).getResponseHeader = (name: string) => {
+        return ruleHeaders[name.toLowerCase()] ?? originalGetResponseHeader(name);
+      };
+      (xhr as any).getAllResponseHeaders = () => {
+        const lines = originalGetAllResponseHeaders()
+          .split('\r\n')
+          .filter(line => line && !(line.split(':')[0].trim().toLowerCase() in ruleHeaders));
+        Object.keys(ruleHeaders).forEach(name => lines.push(`${name}: ${ruleHeaders[name]}`));
+        return lines.map(line => `${line}\r\n`).join('');
+      };
+    }
+
+    cookies.forEach(applySetCookie);
+  };
+
+  (xhr as any)._mockPatchListener = onReadyStateChange;
+  xhr.addEventListener('readystatechange', onReadyStateChange, true);
+}
+
+// 移除修改真实响应时定义在 XHR 实例上的属性，以便重新 open 后返回新请求的响应
+function uninstallPatchedXHR(xhr: XMLHttpRequest) {
+  const listener = (xhr as any)._mockPatchListener;
+  if (listener) xhr.removeEventListener('readystatechange', listener, true);
+  if ((xhr as any)._mockPatched) {
+    ['response', 'responseText', 'status', 'getResponseHeader', 'getAllResponseHeaders']
+      .forEach(name => delete (xhr as any)[name]);
+  }
+  delete (xhr as any)._mockPatchListener;
+  delete (xhr as any)._mockPatched;
+}
+
+// HTTP 状态码对应的状态文本
+const statusTexts: Record<number, string> = {
+  100: 'Continue', 101: 'Switching Protocols',
+  200: 'OK', 201: 'Created', 202: 'Accepted', 203: 'Non-Authoritative Information', 204: 'No Content', 205: 'Reset Content', 206: 'Partial Content',
+  300: 'Multiple Choices', 301: 'Moved Permanently', 302: 'Found', 303: 'See Other', 304: 'Not Modified', 307: 'Temporary Redirect', 308: 'Permanent Redirect',
+  400: 'Bad Request', 401: 'Unauthorized', 402: 'Payment Required', 403: 'Forbidden', 404: 'Not Found', 405: 'Method Not Allowed', 406: 'Not Acceptable',
+  407: 'Proxy Authentication Required', 408: 'Request Timeout', 409: 'Conflict', 410: 'Gone', 411: 'Length Required', 412: 'Precondition Failed',
+  413: 'Payload Too Large', 414: 'URI Too Long', 415: 'Unsupported Media Type', 416: 'Range Not Satisfiable', 417: 'Expectation Failed', 418: "I'm a teapot",
+  422: 'Unprocessable Entity', 423: 'Locked', 424: 'Failed Dependency', 425: 'Too Early', 426: 'Upgrade Required', 428: 'Precondition Required',
+  429: 'Too Many Requests', 431: 'Request Header Fields Too Large', 451: 'Unavailable For Legal Reasons',
+  500: 'Internal Server Error', 501: 'Not Implemented', 502: 'Bad Gateway', 503: 'Service Unavailable', 504: 'Gateway Timeout', 505: 'HTTP Version Not Supported',
+};
+
+// 事件流播放完毕后的行为
+const streamEndLabels: Record<EventStream['onEnd'], string> = {
+  hold: '保持连接',
+  loop: '从头循环',
+  close: '关闭连接',
+  error: '连接出错',
+};
+
+// 失败结果名称
+const outcomeLabels: Record<string, string> = {
+  networkError: '网络错误',
+  timeout: '请求超时',
+  reset: '连接中断',
+  malformedJson: 'JSON 格式错误',
+  serverError: '服务器错误 (500)',
+};
+
+// URL 匹配方式名称
+const urlMatchTypeLabels: Record<UrlMatchType, string> = {
+  exact: '完全相等',
+  prefix: '前缀',
+  glob: '通配符',
+  path: '路径参数',
+  regex: '正则表达式',
+};
+
+// 请求发起方式名称
+const initiatorLabels: Record<RequestLog['initiator'], string> = {
+  fetch: 'Fetch',
+  xhr: 'XHR',
+  eventsource: 'EventSource',
+};
+
+// 混沌模式：判断本次请求是否失败，返回失败方式
+function rollChaos(matched: boolean): ChaosConfig['outcome'] | null {
+  const chaos = config.chaos;
+  if (!config.enabled || !chaos.enabled) return null;
+  if ((chaos.scope === 'matched' && !matched) || (chaos.scope === 'unmatched' && matched)) return null;
+  return Math.random() * 100 < chaos.rate ? chaos.outcome : null;
+}
+
+// 创建用于模拟失败的响应
+function createFailureResponse(): MockResponse {
+  return {
+    status: 500,
+    headers: { 'content-type': 'application/json' },
+    cookies: [],
+    body: JSON.stringify({ error: 'Internal Server Error' }),
+    delay: 0,
+  };
+}
+
+// 将失败结果应用到 Mock 响应
+function applyOutcome(mockResponse: MockResponse, outcome?: MockRule['outcome'] | ChaosConfig['outcome'] | null) {
+  if (!outcome || outcome === 'response') return;
+
+  if (outcome === 'malformedJson') {
+    // 截断响应体，保证无法被解析
+    const body = mockResponse.body || '{}';
+    mockResponse.body = body.slice(0, Math.max(1, Math.floor(body.length / 2)));
+    delete mockResponse.bytes;
+    mockResponse.headers['content-type'] = 'application/json';
+  } else if (outcome === 'serverError') {
+    const failure = createFailureResponse();
+    mockResponse.status = failure.status;
+    mockResponse.headers = failure.headers;
+    mockResponse.body = failure.body;
+    delete mockResponse.bytes;
+  } else {
+    mockResponse.failure = outcome;
+  }
+}
+
+// 请求被中止的原因（未指定时为 AbortError）
+function getAbortReason(signal: AbortSignal): any {
+  return signal.reason ?? new DOMException('The user aborted a request.', 'AbortError');
+}
+
+// 等待 Promise，期间请求被中止时以中止原因拒绝
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal | null): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(getAbortReason(signal));
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(getAbortReason(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(value => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(value);
+    }, error => {
+      signal.removeEventListener('abort', onAbort);
+      reject(error);
+    });
+  });
+}
+
+// 补全 Response 的 url、redirected 和 type（new Response() 创建的响应这些属性为空），clone() 后保持不变
+function decorateFetchResponse(response: Response, url: string, redirected: boolean, type?: ResponseType): Response {
+  const clone = response.clone;
+  Object.defineProperties(response, {
+    url: { value: url, configurable: true },
+    redirected: { value: redirected, configurable: true },
+    type: { value: type ?? (isSameOrigin(url) ? 'basic' : 'cors'), configurable: true },
+    clone: { value: () => decorateFetchResponse(clone.call(response), url, redirected, type), configurable: true, writable: true },
+  });
+  return response;
+}
+
+// 创建 redirect: 'manual' 时返回的 opaqueredirect 响应
+function createOpaqueRedirectResponse(url: string): Response {
+  const response = decorateFetchResponse(new Response(null), url, false, 'opaqueredirect');
+  Object.defineProperties(response, {
+    status: { value: 0, configurable: true },
+    statusText: { value: '', configurable: true },
+    ok: { value: false, configurable: true },
+    headers: { value: new Headers(), configurable: true },
+  });
+  return response;
+}
+
+// 状态码是否可以用于响应（Fetch 的 Response 只接受 200-599）
+function isValidStatusCode(status: number): boolean {
+  return Number.isInteger(status) && status >= 200 && status <= 599;
+}
+
+// 生成 Fetch 的 Mock 响应（包括网络层失败）
+function createFetchResponse(mockResponse: MockResponse, signal?: AbortSignal | null, log?: RequestLog | null): Promise<Response> {
+  // 1xx 等状态码无法构造 Response，按网络错误处理
+  if (!mockResponse.failure && !isValidStatusCode(mockResponse.status)) {
+    if (log) log.error = `状态码 ${mockResponse.status} 无法用于 Fetch 响应（只支持 200-599），已按网络错误处理`;
+    return Promise.reject(new TypeError('Failed to fetch'));
+  }
+
+  const init = {
+    status: mockResponse.status,
+    statusText: statusTexts[mockResponse.status] || '',
+    headers: mockResponse.headers,
+  };
+
+  switch (mockResponse.failure) {
+    case 'networkError':
+      return Promise.reject(new TypeError('Failed to fetch'));
+    case 'timeout':
+      // 一直挂起，直到请求被中止
+      return new Promise((_, reject) => {
+        signal?.addEventListener('abort', () => {
+          reject(getAbortReason(signal));
+        });
+      });
+    case 'reset': {
+      // 返回部分响应体后中断连接
+      const bytes = getResponseBytes(mockResponse);
+      const partial = bytes.slice(0, Math.floor(bytes.length / 2));
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(partial);
+          setTimeout(() => controller.error(new TypeError('network error')), 0);
+        },
+      });
+      return Promise.resolve(new Response(stream, init));
+    }
+  }
+
+  mockResponse.cookies.forEach(applySetCookie);
+
+  if (mockResponse.stream) {
+    // 事件流：按脚本逐个推送事件，请求中止时以 AbortError 结束
+    const encoder = new TextEncoder();
+    const events = mockResponse.stream;
+    let stop = () => {};
+    const stream = new ReadableStream({
+      start(controller) {
+        stop = playEventStream(events, event => {
+          addStreamLogEvent(log, event);
+          controller.enqueue(encoder.encode(formatStreamEvent(event)));
+        }, error => error ? controller.error(new TypeError('network error')) : controller.close());
+        signal?.addEventListener('abort', () => {
+          stop();
+          controller.error(getAbortReason(signal));
+        });
+      },
+      cancel() {
+        stop();
+      },
+    });
+    return Promise.resolve(new Response(stream, init));
+  }
+
+  // 状态码 204、304 等不能携带响应体
+  if ([204, 205, 304].includes(mockResponse.status)) {
+    return Promise.resolve(new Response(null, init));
+  }
+
+  // 分块传输时逐块写入；请求中止后读取响应体以 AbortError 失败
+  const chunks = mockResponse.chunks
+    ? splitResponseChunks(mockResponse)
+    : [{ bytes: getResponseBytes(mockResponse), wait: 0 }];
+  if (!mockResponse.chunks && !signal) {
+    return Promise.resolve(new Response(mockResponse.bytes || mockResponse.body, init));
+  }
+
+  let aborted = false;
+  const stream = new ReadableStream({
+    async start(controller) {
+      signal?.addEventListener('abort', () => {
+        aborted = true;
+        controller.error(getAbortReason(signal));
+      });
+      for (const chunk of chunks) {
+        if (chunk.wait > 0) await sleep(chunk.wait);
+        if (aborted) return;
+        if (chunk.bytes.length > 0) controller.enqueue(chunk.bytes);
+      }
+      controller.close();
+    },
+  });
+  return Promise.resolve(new Response(stream, init));
+}
+
+// 将事件序列化为 text/event-stream 格式
+function formatStreamEvent(event: StreamEvent): string {
+  const lines: string[] = [];
+  if (event.event) lines.push(`event: ${event.event}`);
+  if (event.id) lines.push(`id: ${event.id}`);
+  if (event.retry !== undefined) lines.push(`retry: ${event.retry}`);
+  if (event.data) {
+    event.data.split(/\r\n|\r|\n/).forEach(line => lines.push(`data: ${line}`));
+  }
+  return `${lines.join('\n')}\n\n`;
+}
+
+// 解析 text/event-stream 文本（末尾不完整的事件会被丢弃）
+function parseEventStream(text: string): StreamEvent[] {
+  const events: StreamEvent[] = [];
+  let current: StreamEvent = { delay: 0, id: '', event: '', data: '' };
+  let data: string[] = [];
+
+  text.split(/\r\n|\r|\n/).forEach(line => {
+    if (line === '') {
+      if (data.length > 0 || current.id || current.retry !== undefined) {
+        events.push({ ...current, data: data.join('\n') });
+      }
+      current = { delay: 0, id: '', event: '', data: '' };
+      data = [];
+      return;
+    }
+    if (line.startsWith(':')) return;
+
+    const index = line.indexOf(':');
+    const field = index === -1 ? line : line.slice(0, index);
+    let value = index === -1 ? '' : line.slice(index + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'data') data.push(value);
+    if (field === 'event') current.event = value;
+    if (field === 'id') current.id = value;
+    if (field === 'retry' && /^\d+$/.test(value)) current.retry = parseInt(value);
+  });
+
+  return events;
+}
+
+// 按脚本依次播放事件流，返回停止播放的函数
+function playEventStream(stream: NonNullable<MockResponse['stream']>, emit: (event: StreamEvent) => void, end: (error: boolean) => void): () => void {
+  let stopped = false;
+  let timer = 0;
+
+  const run = (events: StreamEvent[], index: number) => {
+    if (stopped) return;
+    if (index >= events.length) {
+      if (stream.onEnd === 'loop' && events.length > 0) {
+        run(stream.events(), 0);
+      } else if (stream.onEnd === 'close' || stream.onEnd === 'error') {
+        end(stream.onEnd === 'error');
+      }
+      return;
+    }
+    timer = window.setTimeout(() => {
+      if (stopped) return;
+      emit(events[index]);
+      run(events, index + 1);
+    }, events[index].delay);
+  };
+
+  run(stream.events(), 0);
+  return () => {
+    stopped = true;
+    clearTimeout(timer);
+  };
+}
+
+// 在请求日志中记录推送的事件（每个请求只保留最近 200 个）
+function addStreamLogEvent(log: RequestLog | null | undefined, event: StreamEvent) {
+  if (!log) return;
+  if (!log.events) log.events = [];
+  log.events.push({ id: event.id, event: event.event, data: event.data, timestamp: Date.now() });
+  if (log.events.length > 200) {
+    log.events.shift();
+  }
+  scheduleSaveRequestLogs();
+}
+
+// 根据网络环境计算延迟
+function sampleLatency(profile: NetworkProfile): number {
+  let latency = profile.latency;
+  const range = profile.latencyMax - profile.latency;
+  if (range > 0) {
+    if (profile.distribution === 'normal') {
+      // Box-Muller 正态分布，区间覆盖 ±3σ
+      const u = 1 - Math.random();
+      const v = Math.random();
+      const z = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+      latency = profile.latency + range / 2 + Math.max(-3, Math.min(3, z)) * range / 6;
+    } else {
+      latency = profile.latency + Math.random() * range;
+    }
+  }
+  if (profile.jitter > 0) {
+    latency += (Math.random() * 2 - 1) * profile.jitter;
+  }
+  return Math.max(0, Math.round(latency));
+}
+
+// 将网络模拟设置应用到 Mock 响应
+function applyNetworkProfile(mockResponse: MockResponse, rule?: MockRule) {
+  const settings = rule?.network;
+  let preset: 'none' | 'custom' | NetworkPresetName = settings?.preset && settings.preset !== 'default' ? settings.preset : config.networkPreset;
+  // 导入的配置中可能有不存在的预设，按自定义处理
+  if (preset === 'none' || (preset !== 'custom' && !networkPresets[preset])) preset = 'custom';
+
+  const profile: NetworkProfile = preset === 'custom'
+    ? {
+      latency: mockResponse.delay,
+      latencyMax: settings?.preset === 'custom' ? settings.delayMax : 0,
+      distribution: settings?.distribution || 'uniform',
+      jitter: settings?.preset === 'custom' ? settings.jitter : 0,
+      bandwidth: settings?.preset === 'custom' ? settings.bandwidth : 0,
+    }
+    : networkPresets[preset].profile;
+
+  // 预设的延迟叠加在规则、序列步骤或 JS 函数返回的延迟之上
+  mockResponse.delay = preset === 'custom' ? sampleLatency(profile) : mockResponse.delay + sampleLatency(profile);
+
+  if (settings?.chunked) {
+    mockResponse.chunks = { size: settings.chunkSize, interval: profile.bandwidth > 0 ? 0 : settings.chunkInterval };
+    mockResponse.bandwidth = profile.bandwidth;
+  } else if (profile.bandwidth > 0) {
+    // 不分块时按带宽把传输时间计入延迟
+    const size = getResponseBytes(mockResponse).length;
+    mockResponse.delay += Math.round(size / (profile.bandwidth * 1024) * 1000);
+  }
+}
+
+// 将响应体拆分为分块，并计算每块的发送间隔
+function splitResponseChunks(mockResponse: MockResponse): { bytes: Uint8Array; wait: number }[] {
+  const bytes = getResponseBytes(mockResponse);
+  const { size, interval } = mockResponse.chunks!;
+  const bandwidth = mockResponse.bandwidth || 0;
+  const chunks: { bytes: Uint8Array; wait: number }[] = [];
+
+  const push = (chunk: Uint8Array) => {
+    const wait = interval > 0 || bandwidth <= 0 ? interval : Math.round(chunk.length / (bandwidth * 1024) * 1000);
+    chunks.push({ bytes: chunk, wait });
+  };
+
+  if (size > 0) {
+    for (let i = 0; i < bytes.length; i += size) {
+      push(bytes.slice(i, i + size));
+    }
+  } else {
+    // 按行分块（适用于 NDJSON 等流式格式）
+    let start = 0;
+    for (let i = 0; i < bytes.length; i++) {
+      if (bytes[i] === 10) {
+        push(bytes.slice(start, i + 1));
+        start = i + 1;
+      }
+    }
+    if (start < bytes.length) push(bytes.slice(start));
+  }
+  return chunks;
+}
+
+// 等待指定毫秒
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// 添加请求日志（录制模式下未匹配的请求始终记录）
+function addRequestLog(ctx: RequestContext, initiator: RequestLog['initiator'], matched: boolean, ruleId?: string): RequestLog | null {
+  if (!config.logRequests && (matched || !config.recordResponses)) return null;
+
+  const log: RequestLog = {
+    id: Date.now().toString(36) + Math.random().toString(36).substr(2),
+    timestamp: Date.now(),
+    url: ctx.rawUrl,
+    method: ctx.method,
+    initiator,
+    pageUrl: location.href,
+    matched,
+    recorded: !matched && config.recordResponses,
+    ruleId,
+    requestHeaders: ctx.headers,
+    requestBody: ctx.rawBody,
+  };
+
+  requestLogs.unshift(log);
+
+  // 只保留最近的日志
+  if (requestLogs.length > config.logLimit) {
+    requestLogs = requestLogs.slice(0, config.logLimit);
+  }
+  scheduleSaveRequestLogs();
+  return log;
+}
+
+// 记录请求结束：耗时，以及失败原因（已有错误信息时保留）
+function finishRequestLog(log: RequestLog | null, error?: unknown) {
+  if (!log) return;
+  log.duration = Date.now() - log.timestamp;
+  if (error !== undefined && !log.error) {
+    log.error = error instanceof Error || error instanceof DOMException ? `${error.name}: ${error.message}` : String(error);
+  }
+  scheduleSaveRequestLogs();
+}
+
+// 保存捕获的真实响应；录制模式以外过大的响应体只保留开头 1MB
+function storeCapturedResponse(log: RequestLog, captured: CapturedResponse) {
+  const limit = 1024 * 1024;
+  log.response = !log.recorded && captured.body.length > limit
+    ? { ...captured, body: captured.body.slice(0, limit), truncated: true }
+    : captured;
+  scheduleSaveRequestLogs();
+}
+
+// 是否为可录制的文本响应
+function isTextContentType(contentType: string): boolean {
+  if (!contentType) return true;
+  if (contentType.includes('text/event-stream')) return false;
+  return /^text\/|json|xml|javascript|x-www-form-urlencoded/.test(contentType);
+}
+
+// 将 getAllResponseHeaders 的结果解析为对象
+function parseRawHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  raw.trim().split(/[\r\n]+/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+    }
+  });
+  return headers;
+}
+
+// 捕获 Fetch 响应（事件流只记录状态码和响应头）
+function captureFetchResponse(log: RequestLog, response: Response) {
+  const headers = headersToRecord(response.headers);
+  const contentType = headers['content-type'] || '';
+  if (contentType.includes('text/event-stream')) {
+    storeCapturedResponse(log, { status: response.status, headers, body: '', truncated: true });
+    return;
+  }
+
+  // 超过上限的响应只读取开头部分，已知长度超限的不读取
+  const limit = (log.recorded ? 10 : 1) * 1024 * 1024;
+  const length = parseInt(headers['content-length']);
+  if (!response.body || length > limit) {
+    storeCapturedResponse(log, { status: response.status, headers, body: '', truncated: length > limit });
+    return;
+  }
+
+  readResponsePrefix(response.clone(), limit).then(({ bytes, truncated }) => {
+    // 非文本响应以 base64 保存
+    const body = isTextContentType(contentType)
+      ? { body: new TextDecoder().decode(bytes) }
+      : { body: bytesToBase64(bytes), encoding: 'base64' as const };
+    storeCapturedResponse(log, { status: response.status, headers, ...body, ...(truncated ? { truncated } : {}) });
+  }).catch(e => {
+    console.error('录制响应失败:', e);
+  });
+}
+
+// 读取响应体的开头部分，超出上限后取消读取（避免长连接的流无限增长）
+async function readResponsePrefix(response: Response, limit: number): Promise<{ bytes: Uint8Array<ArrayBuffer>; truncated: boolean }> {
+  const reader = response.body!.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+    if (size > limit) {
+      truncated = true;
+      reader.cancel().catch(() => {});
+      break;
+    }
+  }
+
+  const bytes = new Uint8Array(Math.min(size, limit));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, truncated };
+}
+
+// 记录 XHR 请求的耗时和失败原因
+function trackXHRLog(log: RequestLog, xhr: XMLHttpRequest) {
+  const failures: Record<string, string> = { error: '网络错误', timeout: '请求超时', abort: '请求已中止' };
+  Object.keys(failures).forEach(type => {
+    xhr.addEventListener(type, () => finishRequestLog(log, failures[type]));
+  });
+  xhr.addEventListener('load', () => finishRequestLog(log));
+}
+
+// 捕获 XHR 响应
+function captureXHRResponse(log: RequestLog, xhr: XMLHttpRequest) {
+  xhr.addEventListener('loadend', () => {
+    if (xhr.readyState !== 4 || xhr.status === 0) return;
+
+    const headers = parseRawHeaders(xhr.getAllResponseHeaders());
+    let body: string;
+    if (xhr.responseType === '' || xhr.responseType === 'text') {
+      body = xhr.responseText;
+    } else if (xhr.responseType === 'json') {
+      body = JSON.stringify(xhr.response);
+    } else if (xhr.responseType === 'arraybuffer') {
+      storeCapturedResponse(log, { status: xhr.status, headers, body: bytesToBase64(new Uint8Array(xhr.response)), encoding: 'base64' });
+      return;
+    } else if (xhr.responseType === 'blob') {
+      (xhr.response as Blob).arrayBuffer().then(buffer => {
+        storeCapturedResponse(log, { status: xhr.status, headers, body: bytesToBase64(new Uint8Array(buffer)), encoding: 'base64' });
+      }).catch(e => {
+        console.error('录制响应失败:', e);
+      });
+      return;
+    } else {
+      // document 类型无法还原原始文本，只记录状态码和响应头
+      storeCapturedResponse(log, { status: xhr.status, headers, body: '', truncated: true });
+      return;
+    }
+    storeCapturedResponse(log, { status: xhr.status, headers, body });
+  });
+}
+
+// 根据请求地址生成建议的 URL 匹配规则：仅匹配路径、精确匹配（含查询参数）、数字 ID 通配（替换为路径参数）
+function suggestUrlPatterns(url: string): UrlPatternSuggestion[] {
+  let path = url.split(/[?#]/)[0];
+  let search = url.includes('?') ? '?' + url.split('?')[1].split('#')[0] : '';
+  try {
+    const parsed = new URL(url, location.href);
+    path = parsed.pathname;
+    search = parsed.search;
+  } catch (e) {
+    // 使用原始地址
+  }
+
+  // 没有查询参数时精确匹配与仅匹配路径相同
+  const suggestions: UrlPatternSuggestion[] = [
+    { label: '仅匹配路径', urlPattern: path, urlMatchType: 'exact', urlMatchQuery: false },
+  ];
+  if (search) {
+    suggestions.push({ label: '精确匹配', urlPattern: path + search, urlMatchType: 'exact', urlMatchQuery: true });
+  }
+  // 路径本身含有 * 或 : 时无法按路径参数匹配
+  let ids = 0;
+  const generalized = path.split('/').map(segment => /^\d+$/.test(segment) ? `:id${ids++ || ''}` : segment).join('/');
+  if (ids > 0 && !/[*:]/.test(path)) {
+    suggestions.push({ label: '数字 ID 通配', urlPattern: generalized, urlMatchType: 'path', urlMatchQuery: false });
+  }
+  return suggestions;
+}
+
+// 根据录制的请求创建规则草稿
+function createRuleFromLog(log: RequestLog): MockRule {
+  const captured = log.response;
+  let path = log.url.split(/[?#]/)[0];
+  try {
+    path = new URL(log.url, location.href).pathname;
+  } catch (e) {
+    // 使用原始地址
+  }
+
+  // 响应体不完整时只沿用状态码和响应头
+  const complete = captured && !captured.truncated ? captured : undefined;
+  let responseType: MockRule['responseType'] = 'text';
+  let responseData = complete?.body ?? '{}';
+  if (complete?.encoding === 'base64') {
+    responseType = 'binary';
+    responseData = `data:${complete.headers['content-type'] || 'application/octet-stream'};base64,${complete.body}`;
+  } else {
+    responseType = complete ? getResponseTypeFromContentType(complete.headers['content-type'] || '') : 'json';
+    if (responseType === 'json') {
+      try {
+        responseData = JSON.stringify(JSON.parse(responseData), null, 2);
+      } catch (e) {
+        // 保留原始文本
+        responseType = 'text';
+      }
+    }
+  }
+
+  // 仅保留业务相关的响应头；没有对应响应类型的文本（如 text/javascript）保留原始 Content-Type
+  const ignoredHeaders = ['content-type', 'content-length', 'content-encoding', 'transfer-encoding', 'connection', 'date', 'keep-alive', 'vary'];
+  const keepContentType = responseType === 'text' && !/^text\/plain\b/i.test(captured?.headers['content-type'] || 'text/plain');
+  const responseHeaders = Object.keys(captured?.headers || {})
+    .filter(name => !ignoredHeaders.includes(name) || (name === 'content-type' && keepContentType))
+    .map(name => ({ name, value: captured!.headers[name] }));
+
+  return {
+    id: generateId(),
+    enabled: true,
+    name: `${log.method.toUpperCase()} ${path}`,
+    urlPattern: path,
+    urlMatchType: 'exact',
+    pageUrlPattern: location.host,
+    method: log.method.toUpperCase(),
+    responseType,
+    responseData,
+    statusCode: captured?.status ?? 200,
+    delay: 0,
+    responseHeaders,
+  };
+}
+
+// 处理 fetch 请求，redirects 为已跟随的重定向次数
+async function handleFetch(thisArg: any, input: RequestInfo | URL, init: RequestInit | undefined, redirects: number): Promise<Response> {
+  const request = input instanceof Request ? input : null;
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const method = init?.method ?? request?.method ?? 'GET';
+  const signal = init?.signal ?? request?.signal;
+
+  // 已中止的请求直接失败
+  if (signal?.aborted) {
+    throw getAbortReason(signal);
+  }
+
+  // 构建请求上下文
+  const headers = headersToRecord(init?.headers ?? request?.headers);
+  const ctx = createRequestContext(url, method, headers, serializeRequestBody(init?.body));
+
+  // Request 对象的请求体需要异步读取，只在可能命中的规则用到请求体时读取，其余请求直接放行
+  const bodyPending = !!request && init?.body === undefined;
+  if (bodyPending && hasRuleNeedingRequestBody(ctx)) {
+    setRequestContextBody(ctx, await readRequestBody(request!));
+  }
+
+  const rule = matchRule(ctx);
+  const chaos = rollChaos(!!rule);
+
+  if (rule) {
+    // 命中的请求补读请求体，用于日志和 307 / 308 重定向
+    if (bodyPending && !ctx.rawBody) {
+      setRequestContextBody(ctx, await readRequestBody(request!));
+    }
+    const log = addRequestLog(ctx, 'fetch', true, rule.id);
+
+    if (config.showNotification) {
+      console.log(`🎭 Mock: ${method} ${url} -> ${rule.name}`);
+    }
+
+    try {
+      return await respondWithMock(thisArg, input, init, ctx, rule, chaos, log, redirects);
+    } catch (e) {
+      finishRequestLog(log, e);
+      throw e;
+    }
+  }
+
+  const log = addRequestLog(ctx, 'fetch', false);
+
+  // 混沌模式：未匹配的请求也可能失败
+  if (chaos) {
+    const mockResponse = createFailureResponse();
+    applyOutcome(mockResponse, chaos);
+    if (log) log.error = `混沌模式：${outcomeLabels[chaos]}`;
+    finishRequestLog(log);
+    return createFetchResponse(mockResponse, signal);
+  }
+
+  try {
+    const response = await originalFetch.apply(thisArg, [input, init] as any);
+    finishRequestLog(log);
+    // Mock 关闭时只在录制模式下读取真实响应
+    if (log && (config.enabled || log.recorded)) captureFetchResponse(log, response);
+    return redirects > 0 ? decorateFetchResponse(response, response.url, true, response.type) : response;
+  } catch (e) {
+    finishRequestLog(log, e);
+    throw e;
+  }
+}
+
+// 以规则的 Mock 响应完成 Fetch 请求
+async function respondWithMock(thisArg: any, input: RequestInfo | URL, init: RequestInit | undefined, ctx: RequestContext, rule: MockRule, chaos: ChaosConfig['outcome'] | null, log: RequestLog | null, redirects: number): Promise<Response> {
+  const request = input instanceof Request ? input : null;
+  const signal = init?.signal ?? request?.signal;
+  const redirectMode = init?.redirect ?? request?.redirect ?? 'follow';
+
+  // 修改真实响应模式：先发出真实请求
+  if (rule.responseMode === 'patch' && !chaos) {
+    const response = await originalFetch.apply(thisArg, [input, init] as any);
+    const patched = await patchFetchResponse(rule, ctx, response, log);
+    finishRequestLog(log);
+    if (log) captureFetchResponse(log, patched);
+    return patched;
+  }
+
+  const mockResponse = rule.responseMode === 'patch' ? createFailureResponse() : await abortable(buildMockResponse(rule, ctx), signal);
+  applyOutcome(mockResponse, chaos || rule.outcome);
+  applyNetworkProfile(mockResponse, rule);
+
+  // 校验 JSON 响应（模拟 JSON 格式错误和空响应体除外）；无效时照常返回，由页面自己处理解析失败
+  let invalidJson: string | undefined;
+  if (rule.responseType === 'json' && rule.responseMode !== 'stream' && !chaos && rule.outcome !== 'malformedJson' && !mockResponse.failure && mockResponse.body.trim()) {
+    try {
+      JSON.parse(mockResponse.body);
+    } catch (e) {
+      invalidJson = `响应不是合法的 JSON：${e instanceof Error ? e.message : e}`;
+      console.warn(`Mock 响应不是合法的 JSON: [${rule.name}]`, e);
+    }
+  }
+
+  if (log) {
+    log.error = chaos ? `混沌模式：${outcomeLabels[chaos]}` : mockResponse.error || invalidJson;
+    log.response = captureMockResponse(mockResponse);
+  }
+
+  // 模拟延迟，期间中止请求以 AbortError 失败
+  if (mockResponse.delay > 0 && !mockResponse.failure) {
+    await abortable(sleep(mockResponse.delay), signal);
+  }
+
+  // 模拟重定向（跳转后的请求另行记录）
+  const location = mockResponse.headers['location'];
+  if ([301, 302, 303, 307, 308].includes(mockResponse.status) && location && !mockResponse.failure) {
+    finishRequestLog(log);
+    return followFetchRedirect(thisArg, ctx, mockResponse, { ...init, signal, redirect: redirectMode }, redirects);
+  }
+
+  // 创建模拟响应
+  const response = await createFetchResponse(mockResponse, signal, log);
+  finishRequestLog(log);
+  return decorateFetchResponse(response, ctx.url.split('#')[0], redirects > 0);
+}
+
+// 按 redirect 选项处理 Mock 的重定向响应：跟随（重新匹配规则）、报错或返回 opaqueredirect 响应
+function followFetchRedirect(thisArg: any, ctx: RequestContext, mockResponse: MockResponse, init: RequestInit, redirects: number): Promise<Response> {
+  if (init.redirect === 'error' || redirects >= 20) {
+    return Promise.reject(new TypeError('Failed to fetch'));
+  }
+  if (init.redirect === 'manual') {
+    return Promise.resolve(createOpaqueRedirectResponse(ctx.url.split('#')[0]));
+  }
+
+  mockResponse.cookies.forEach(applySetCookie);
+
+  // 303 以及 POST 请求的 301、302 改为不带请求体的 GET，307、308 保留方法和请求体
+  const status = mockResponse.status;
+  const toGet = (status === 303 && ctx.method !== 'HEAD') || ((status === 301 || status === 302) && ctx.method === 'POST');
+  const headers = { ...ctx.headers };
+  if (toGet) {
+    ['content-type', 'content-length', 'content-encoding', 'content-language', 'content-location'].forEach(name => delete headers[name]);
+  }
+
+  const target = new URL(mockResponse.headers['location'], ctx.url).href;
+  return handleFetch(thisArg, target, {
+    ...init,
+    method: toGet ? 'GET' : ctx.method,
+    headers,
+    body: toGet ? undefined : init.body ?? (ctx.rawBody || undefined),
+  }, redirects + 1);
+}
+
+// 拦截 Fetch
+function interceptFetch() {
+  originalFetch = window.fetch;
+
+  window.fetch = function(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    return handleFetch(this, input, init, 0);
+  };
+}
+
+// 触发 XHR 进度事件
+function fireProgress(target: EventTarget, type: string, loaded: number, total: number) {
+  target.dispatchEvent(new ProgressEvent(type, { lengthComputable: total > 0, loaded, total }));
+}
+
+// 计算请求体的字节数
+function getRequestBodySize(body: unknown): number {
+  if (body instanceof Blob) return body.size;
+  if (body instanceof ArrayBuffer || ArrayBuffer.isView(body)) return body.byteLength;
+  return new TextEncoder().encode(serializeRequestBody(body)).length;
+}
+
+// 是否与当前页面同源
+function isSameOrigin(url: string): boolean {
+  try {
+    return new URL(url, location.href).origin === location.origin;
+  } catch (e) {
+    return false;
+  }
+}
+
+// 解析 HTML / XML 响应为 Document（responseType 为 '' 时只解析 XML）
+function parseXHRDocument(text: string, mimeType: string, allowHtml: boolean): Document | null {
+  const essence = mimeType.split(';')[0].trim().toLowerCase();
+  const isHtml = essence === 'text/html';
+  const isXml = essence === 'text/xml' || essence === 'application/xml' || essence.endsWith('+xml');
+  if (!(isHtml && allowHtml) && !isXml) return null;
+
+  const doc = new DOMParser().parseFromString(text, isHtml ? 'text/html' : 'application/xml');
+  return !isHtml && doc.getElementsByTagName('parsererror').length > 0 ? null : doc;
+}
+
+// 按 responseType 转换响应体
+function parseXHRResponse(xhr: XMLHttpRequest, state: MockXHRState): any {
+  const mimeType = (xhr as any)._mockMimeType || state.headers['content-type'] || 'text/xml';
+  switch (xhr.responseType) {
+    case 'json':
+      try {
+        return JSON.parse(state.received);
+      } catch (e) {
+        return null;
+      }
+    case 'arraybuffer':
+      return (state.bytes || new TextEncoder().encode(state.received)).slice().buffer;
+    case 'blob':
+      return new Blob([state.bytes || state.received], { type: mimeType });
+    case 'document':
+      return parseXHRDocument(state.received, mimeType, true);
+  }
+  return state.received;
+}
+
+// 接管被拦截的 XHR 实例的响应属性，改为读取模拟状态
+function installMockXHR(xhr: XMLHttpRequest, url: string): MockXHRState {
+  const state: MockXHRState = {
+    url,
+    readyState: 1,
+    sending: true,
+    uploadComplete: false,
+    failed: false,
+    status: 0,
+    statusText: '',
+    headers: {},
+    received: '',
+    timers: [],
+  };
+  (xhr as any)._mockState = state;
+
+  const define = (name: string, get: () => any) => {
+    Object.defineProperty(xhr, name, { get, configurable: true });
+  };
+  const assertResponseType = (property: string, allowed: XMLHttpRequestResponseType) => {
+    if (xhr.responseType !== '' && xhr.responseType !== allowed) {
+      throw new DOMException(`Failed to read the '${property}' property from 'XMLHttpRequest': The value is only accessible if the object's 'responseType' is '' or '${allowed}' (was '${xhr.responseType}').`, 'InvalidStateError');
+    }
+  };
+  const hasResponse = () => state.readyState >= 2 && !state.failed;
+
+  define('readyState', () => state.readyState);
+  define('status', () => state.status);
+  define('statusText', () => state.statusText);
+  define('responseURL', () => hasResponse() ? state.url : '');
+  define('responseText', () => {
+    assertResponseType('responseText', 'text');
+    return hasResponse() ? state.received : '';
+  });
+  define('response', () => {
+    if (xhr.responseType === '' || xhr.responseType === 'text') {
+      return hasResponse() ? state.received : '';
+    }
+    if (state.readyState !== 4 || state.failed) return null;
+    // 多次读取返回同一个对象
+    if (!state.response) state.response = { value: parseXHRResponse(xhr, state) };
+    return state.response.value;
+  });
+  define('responseXML', () => {
+    assertResponseType('responseXML', 'document');
+    if (state.readyState !== 4 || state.failed) return null;
+    if (xhr.responseType === 'document') return xhr.response;
+    if (!state.document) {
+      state.document = { value: parseXHRDocument(state.received, (xhr as any)._mockMimeType || state.headers['content-type'] || 'text/xml', false) };
+    }
+    return state.document.value;
+  });
+
+  // 响应头名称小写并按字母排序，与浏览器一致
+  Object.defineProperty(xhr, 'getAllResponseHeaders', {
+    value: () => hasResponse()
+      ? Object.keys(state.headers).sort().map(name => `${name}: ${state.headers[name]}\r\n`).join('')
+      : '',
+    configurable: true,
+    writable: true,
+  });
+  Object.defineProperty(xhr, 'getResponseHeader', {
+    value: (name: string) => hasResponse() ? state.headers[String(name).toLowerCase()] ?? null : null,
+    configurable: true,
+    writable: true,
+  });
+
+  return state;
+}
+
+// 还原被接管的 XHR 实例（重新 open 时调用）
+function uninstallMockXHR(xhr: XMLHttpRequest) {
+  const state: MockXHRState | undefined = (xhr as any)._mockState;
+  if (!state) return;
+
+  state.sending = false;
+  state.timers.forEach(timer => clearTimeout(timer));
+  ['readyState', 'status', 'statusText', 'responseURL', 'responseText', 'response', 'responseXML', 'getAllResponseHeaders', 'getResponseHeader']
+    .forEach(name => delete (xhr as any)[name]);
+  delete (xhr as any)._mockState;
+}
+
+// 请求以网络错误、超时或中止结束：依次触发 readystatechange、upload 事件和 xhr 事件
+function failMockXHRRequest(xhr: XMLHttpRequest, state: MockXHRState, type: 'error' | 'timeout' | 'abort') {
+  state.timers.forEach(timer => clearTimeout(timer));
+  state.timers = [];
+  state.readyState = 4;
+  state.sending = false;
+  state.failed = true;
+  state.status = 0;
+  state.statusText = '';
+  state.headers = {};
+
+  xhr.dispatchEvent(new Event('readystatechange'));
+  if (!state.uploadComplete) {
+    state.uploadComplete = true;
+    fireProgress(xhr.upload, type, 0, 0);
+    fireProgress(xhr.upload, 'loadend', 0, 0);
+  }
+  fireProgress(xhr, type, 0, 0);
+  fireProgress(xhr, 'loadend', 0, 0);
+}
+
+// 收到响应头：更新状态，同源或 withCredentials 时写入 Cookie
+function receiveMockXHRHeaders(xhr: XMLHttpRequest, state: MockXHRState, mockResponse: MockResponse) {
+  state.readyState = 2;
+  state.status = mockResponse.status;
+  state.statusText = statusTexts[mockResponse.status] || '';
+  state.headers = mockResponse.headers;
+  if (xhr.withCredentials || isSameOrigin(state.url)) {
+    mockResponse.cookies.forEach(applySetCookie);
+  }
+}
+
+// 以失败结束被拦截的 XHR 请求
+function failMockXHR(xhr: XMLHttpRequest, state: MockXHRState, mockResponse: MockResponse) {
+  // 超时由 xhr.timeout 计时器触发，未设置时一直挂起
+  if (mockResponse.failure === 'timeout') return;
+
+  if (mockResponse.failure === 'reset') {
+    // 已收到响应头和部分数据后中断
+    receiveMockXHRHeaders(xhr, state, mockResponse);
+    xhr.dispatchEvent(new Event('readystatechange'));
+    if (!state.sending) return;
+    state.readyState = 3;
+    const bytes = getResponseBytes(mockResponse);
+    state.received = new TextDecoder().decode(bytes.slice(0, Math.floor(bytes.length / 2)));
+    xhr.dispatchEvent(new Event('readystatechange'));
+    if (!state.sending) return;
+  }
+
+  failMockXHRRequest(xhr, state, 'error');
+}
+
+// 完成被拦截的 XHR 请求：按规范顺序触发 readystatechange 和进度事件
+async function completeMockXHR(xhr: XMLHttpRequest, state: MockXHRState, mockResponse: MockResponse) {
+  if (mockResponse.failure) {
+    failMockXHR(xhr, state, mockResponse);
+    return;
+  }
+
+  receiveMockXHRHeaders(xhr, state, mockResponse);
+  xhr.dispatchEvent(new Event('readystatechange'));
+
+  // 分块传输时逐块更新 responseText，否则一次性接收
+  const chunks = mockResponse.chunks
+    ? splitResponseChunks(mockResponse)
+    : [{ bytes: getResponseBytes(mockResponse), wait: 0 }];
+  const total = chunks.reduce((sum, chunk) => sum + chunk.bytes.length, 0);
+  const decoder = new TextDecoder();
+  let loaded = 0;
+  for (const chunk of chunks) {
+    if (chunk.wait > 0) await sleep(chunk.wait);
+    if (!state.sending) return;
+    if (chunk.bytes.length === 0) continue;
+
+    state.received += decoder.decode(chunk.bytes, { stream: true });
+    loaded += chunk.bytes.length;
+    state.readyState = 3;
+    xhr.dispatchEvent(new Event('readystatechange'));
+    fireProgress(xhr, 'progress', loaded, total);
+  }
+  if (!state.sending) return;
+
+  state.received = mockResponse.bytes ? state.received + decoder.decode() : mockResponse.body;
+  state.bytes = mockResponse.bytes;
+  fireProgress(xhr, 'progress', loaded, total);
+  if (!state.sending) return;
+
+  state.readyState = 4;
+  state.sending = false;
+  xhr.dispatchEvent(new Event('readystatechange'));
+  fireProgress(xhr, 'load', loaded, total);
+  fireProgress(xhr, 'loadend', loaded, total);
+}
+
+// 以 Mock 响应完成 XHR 请求：同步请求直接传入响应，异步请求传入 Promise
+function sendMockXHR(xhr: XMLHttpRequest, body: unknown, response: MockResponse | Promise<MockResponse>, log?: RequestLog | null) {
+  const method = String((xhr as any)._mockMethod).toUpperCase();
+  const hasBody = method !== 'GET' && method !== 'HEAD' && body !== null && body !== undefined;
+  let url: string = (xhr as any)._mockUrl;
+  try {
+    const parsed = new URL(url, location.href);
+    parsed.hash = '';
+    url = parsed.href;
+  } catch (e) {
+    // 无法解析的地址按原样使用
+  }
+  const state = installMockXHR(xhr, url);
+  state.uploadComplete = !hasBody;
+
+  if (!(response instanceof Promise)) {
+    // 同步请求会阻塞页面：用忙等待模拟延迟，网络层失败时直接抛出异常，不触发进度事件
+    const end = Date.now() + (response.failure ? 0 : response.delay);
+    while (Date.now() < end) {
+      // 等待延迟结束
+    }
+    if (response.failure) {
+      state.readyState = 4;
+      state.sending = false;
+      state.failed = true;
+      throw new DOMException(`Failed to execute 'send' on 'XMLHttpRequest': Failed to load '${url}'.`, 'NetworkError');
+    }
+
+    receiveMockXHRHeaders(xhr, state, response);
+    const bytes = getResponseBytes(response);
+    state.received = response.bytes ? new TextDecoder().decode(bytes) : response.body;
+    state.bytes = response.bytes;
+    state.readyState = 4;
+    state.sending = false;
+    const loaded = bytes.length;
+    xhr.dispatchEvent(new Event('readystatechange'));
+    fireProgress(xhr, 'load', loaded, loaded);
+    fireProgress(xhr, 'loadend', loaded, loaded);
+    return;
+  }
+
+  const schedule = (callback: () => void, delay: number) => {
+    state.timers.push(window.setTimeout(callback, delay));
+  };
+  const uploadTotal = hasBody ? getRequestBodySize(body) : 0;
+
+  fireProgress(xhr, 'loadstart', 0, 0);
+  if (!state.uploadComplete) {
+    fireProgress(xhr.upload, 'loadstart', 0, uploadTotal);
+  }
+
+  // 请求体立即发送完毕
+  schedule(() => {
+    if (!state.sending || state.uploadComplete) return;
+    state.uploadComplete = true;
+    fireProgress(xhr.upload, 'progress', uploadTotal, uploadTotal);
+    fireProgress(xhr.upload, 'load', uploadTotal, uploadTotal);
+    fireProgress(xhr.upload, 'loadend', uploadTotal, uploadTotal);
+  }, 0);
+
+  if (xhr.timeout > 0) {
+    schedule(() => {
+      if (state.sending) failMockXHRRequest(xhr, state, 'timeout');
+    }, xhr.timeout);
+  }
+
+  response.then(mockResponse => {
+    if (!state.sending) return;
+    schedule(() => completeMockXHR(xhr, state, mockResponse), mockResponse.failure ? 0 : mockResponse.delay);
+  }).catch(e => {
+    // 构建响应出错时以网络错误结束请求，避免请求一直停在进行中
+    console.error('Mock 响应构建失败:', e);
+    if (log) log.error = e instanceof Error ? `${e.name}: ${e.message}` : String(e);
+    if (state.sending) failMockXHRRequest(xhr, state, 'error');
+  });
+}
+
+// 拦截 XMLHttpRequest
+function interceptXHR() {
+  originalXHROpen = XMLHttpRequest.prototype.open;
+  originalXHRSend = XMLHttpRequest.prototype.send;
+  originalXHRSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
+  originalXHRAbort = XMLHttpRequest.prototype.abort;
+  originalXHROverrideMimeType = XMLHttpRequest.prototype.overrideMimeType;
+
+  XMLHttpRequest.prototype.open = function(
+    method: string,
+    url: string | URL,
+    async?: boolean,
+    username?: string | null,
+    password?: string | null
+  ) {
+    // 重新 open 会终止进行中的模拟请求；已结束的请求回到 OPENED 状态时触发 readystatechange
+    const previous: MockXHRState | undefined = (this as any)._mockState;
+    uninstallMockXHR(this);
+    uninstallPatchedXHR(this);
+
+    const urlStr = typeof url === 'string' ? url : url.href;
+    (this as any)._mockUrl = urlStr;
+    (this as any)._mockMethod = method;
+    (this as any)._mockHeaders = {};
+    (this as any)._mockAsync = arguments.length < 3 || !!async;
+    delete (this as any)._mockMimeType;
+
+    const args = arguments.length < 3 ? [method, url] : [method, url, async, username, password];
+    const result = originalXHROpen.apply(this, args as any);
+    if (previous && previous.readyState !== 1) {
+      this.dispatchEvent(new Event('readystatechange'));
+    }
+    return result;
+  };
+
+  XMLHttpRequest.prototype.setRequestHeader = function(name: string, value: string) {
+    if ((this as any)._mockState) {
+      throw new DOMException("Failed to execute 'setRequestHeader' on 'XMLHttpRequest': The object's state must be OPENED.", 'InvalidStateError');
+    }
+    const headers = (this as any)._mockHeaders || ((this as any)._mockHeaders = {});
+    headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+
+    return originalXHRSetRequestHeader.apply(this, [name, value]);
+  };
+
+  XMLHttpRequest.prototype.abort = function() {
+    const state: MockXHRState | undefined = (this as any)._mockState;
+    if (!state) return originalXHRAbort.apply(this);
+
+    if (state.sending) {
+      failMockXHRRequest(this, state, 'abort');
+    }
+    // 已结束的请求回到 UNSENT 状态，不触发事件
+    if (state.readyState === 4) {
+      state.readyState = 0;
+      state.failed = true;
+    }
+  };
+
+  XMLHttpRequest.prototype.overrideMimeType = function(mime: string) {
+    const state: MockXHRState | undefined = (this as any)._mockState;
+    if (state && state.readyState >= 3) {
+      throw new DOMException("Failed to execute 'overrideMimeType' on 'XMLHttpRequest': MimeType cannot be overridden when the state is LOADING or DONE.", 'InvalidStateError');
+    }
+    (this as any)._mockMimeType = mime;
+    return originalXHROverrideMimeType.apply(this, [mime]);
+  };
+
+  XMLHttpRequest.prototype.send = function(body?: Document | XMLHttpRequestBodyInit | null) {
+    const url = (this as any)._mockUrl;
+    const method = (this as any)._mockMethod;
+
+    // 模拟请求已发出（或已结束）时与原生行为一致
+    if ((this as any)._mockState) {
+      throw new DOMException("Failed to execute 'send' on 'XMLHttpRequest': The object's state must be OPENED.", 'InvalidStateError');
+    }
+
+    if (url && method) {
+      const ctx = createRequestContext(url, method, (this as any)._mockHeaders || {}, serializeRequestBody(body));
+      const rule = matchRule(ctx);
+      const chaos = rollChaos(!!rule);
+      const async = (this as any)._mockAsync !== false;
+
+      if (rule) {
+        const log = addRequestLog(ctx, 'xhr', true, rule.id);
+        if (log) trackXHRLog(log, this);
+
+        if (config.showNotification) {
+          console.log(`🎭 Mock: ${method} ${url} -> ${rule.name}`);
+        }
+
+        // 修改真实响应模式：照常发出请求
+        if (rule.responseMode === 'patch' && !chaos) {
+          patchXHRResponse(this, rule, ctx, log);
+          if (log) captureXHRResponse(log, this);
+          return originalXHRSend.apply(this, [body] as any);
+        }
+
+        const prepare = (mockResponse: MockResponse) => {
+          applyOutcome(mockResponse, chaos || rule.outcome);
+          applyNetworkProfile(mockResponse, rule);
+          if (log) {
+            log.error = chaos ? `混沌模式：${outcomeLabels[chaos]}` : mockResponse.error;
+            log.response = captureMockResponse(mockResponse);
+          }
+          return mockResponse;
+        };
+
+        // 构建响应数据并模拟响应，不调用原始的 send 方法
+        if (rule.responseMode === 'patch') {
+          const mockResponse = prepare(createFailureResponse());
+          sendMockXHR(this, body, async ? Promise.resolve(mockResponse) : mockResponse);
+        } else {
+          sendMockXHR(this, body, async ? buildMockResponse(rule, ctx).then(prepare) : prepare(buildMockResponseSync(rule, ctx)), log);
+        }
+        return;
+      }
+
+      const log = addRequestLog(ctx, 'xhr', false);
+      if (log) trackXHRLog(log, this);
+
+      // 混沌模式：未匹配的请求也可能失败
+      if (chaos) {
+        const mockResponse = createFailureResponse();
+        applyOutcome(mockResponse, chaos);
+        if (log) log.error = `混沌模式：${outcomeLabels[chaos]}`;
+        sendMockXHR(this, body, async ? Promise.resolve(mockResponse) : mockResponse);
+        return;
+      }
+
+      if (log && (config.enabled || log.recorded)) captureXHRResponse(log, this);
+    }
+
+    // 没有匹配到规则，调用原始方法
+    return originalXHRSend.apply(this, [body] as any);
+  };
+}
+
+// 匹配 WebSocket 规则
+function matchWebSocketRule(url: string): { rule: WebSocketRule; params: Record<string, string> } | null {
+  if (!config.enabled) return null;
+
+  for (const rule of config.wsRules) {
+    if (!rule.enabled || !isRuleActiveOnPage(rule)) continue;
+
+    const params = matchRuleUrl(rule, { rawUrl: url, url });
+    if (params) {
+      console.log(`✅ WebSocket 规则匹配成功: [${rule.name}]`, { url, pattern: rule.urlPattern });
+      return { rule, params };
+    }
+  }
+
+  return null;
+}
+
+// 匹配收到的 WebSocket 消息（支持正则表达式和字符串匹配，留空匹配所有消息）
+function matchMessagePattern(pattern: string, message: string): boolean {
+  if (!pattern) return true;
+  try {
+    return new RegExp(pattern).test(message);
+  } catch (e) {
+    return message.includes(pattern);
+  }
+}
+
+// 解析 WebSocket 地址（相对地址基于当前页面，http(s) 转换为 ws(s)）
+function resolveWebSocketUrl(url: string | URL): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(String(url), location.href);
+  } catch (e) {
+    throw new DOMException(`Failed to construct 'WebSocket': The URL '${url}' is invalid.`, 'SyntaxError');
+  }
+
+  if (parsed.protocol === 'http:') parsed.protocol = 'ws:';
+  if (parsed.protocol === 'https:') parsed.protocol = 'wss:';
+  if (parsed.protocol !== 'ws:' && parsed.protocol !== 'wss:') {
+    throw new DOMException(`Failed to construct 'WebSocket': The URL's scheme must be either 'http', 'https', 'ws', or 'wss'. '${parsed.protocol}' is not allowed.`, 'SyntaxError');
+  }
+  if (parsed.hash) {
+    throw new DOMException(`Failed to construct 'WebSocket': The URL contains a fragment identifier ('${parsed.hash}'). Fragment identifiers are not allowed in WebSocket URLs.`, 'SyntaxError');
+  }
+  return parsed.href;
+}
+
+// 将 WebSocket 消息转换为文本（二进制消息只记录长度）
+function describeWebSocketData(data: unknown): string {
+  if (typeof data === 'string') return data;
+  if (data instanceof ArrayBuffer || ArrayBuffer.isView(data)) return `[二进制 ${data.byteLength} 字节]`;
+  if (data instanceof Blob) return `[Blob ${data.size} 字节]`;
+  return String(data);
+}
+
+// 添加 WebSocket 连接日志
+function addWebSocketLog(url: string, ruleId?: string): WebSocketLog | null {
+  if (!config.logRequests) return null;
+
+  const log: WebSocketLog = {
+    id: generateId(),
+    timestamp: Date.now(),
+    url,
+    matched: !!ruleId,
+    ruleId,
+    status: 'connecting',
+    messages: [],
+  };
+
+  wsLogs.unshift(log);
+
+  // 只保留最近 50 个连接
+  if (wsLogs.length > 50) {
+    wsLogs = wsLogs.slice(0, 50);
+  }
+  return log;
+}
+
+// 记录 WebSocket 消息（每个连接只保留最近 200 条）
+function addWebSocketLogMessage(log: WebSocketLog | null, direction: WebSocketLogMessage['direction'], data: string) {
+  if (!log) return;
+  log.messages.push({ direction, data, timestamp: Date.now() });
+  if (log.messages.length > 200) {
+    log.messages.shift();
+  }
+}
+
+// 模拟的 WebSocket 连接，不连接服务器，按规则推送和回复消息
+class MockWebSocket extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSING = 2;
+  static readonly CLOSED = 3;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSING = 2;
+  readonly CLOSED = 3;
+
+  readonly url: string;
+  readyState = 0;
+  protocol = '';
+  extensions = '';
+  binaryType: BinaryType = 'blob';
+  bufferedAmount = 0;
+  onopen: ((ev: Event) => any) | null = null;
+  onmessage: ((ev: MessageEvent) => any) | null = null;
+  onerror: ((ev: Event) => any) | null = null;
+  onclose: ((ev: CloseEvent) => any) | null = null;
+
+  private rule: WebSocketRule;
+  private params: Record<string, string>;
+  private log: WebSocketLog | null;
+  private timers: number[] = [];
+
+  constructor(url: string, protocols: string[], rule: WebSocketRule, params: Record<string, string>, log: WebSocketLog | null) {
+    super();
+    this.url = url;
+    this.rule = rule;
+    this.params = params;
+    this.log = log;
+
+    // on* 属性作为最先注册的监听器，与原生 WebSocket 的触发顺序一致
+    ['open', 'message', 'error', 'close'].forEach(type => {
+      this.addEventListener(type, event => {
+        const handler = (this as any)[`on${type}`];
+        if (typeof handler === 'function') handler.call(this, event);
+      });
+    });
+
+    // 前 N 次连接失败用于模拟服务端故障时客户端的重连风暴
+    const attempts = wsConnectionCounts[rule.id] = (wsConnectionCounts[rule.id] || 0) + 1;
+    const rejected = rule.connect === 'reject' || attempts <= rule.rejectFirst;
+    this.schedule(() => rejected ? this.fail() : this.open(protocols), rule.openDelay);
+  }
+
+  send(data: string | ArrayBufferLike | Blob | ArrayBufferView) {
+    if (this.readyState === this.CONNECTING) {
+      throw new DOMException("Failed to execute 'send' on 'WebSocket': Still in CONNECTING state.", 'InvalidStateError');
+    }
+    if (this.readyState !== this.OPEN) return;
+
+    const message = describeWebSocketData(data);
+    addWebSocketLogMessage(this.log, 'sent', message);
+
+    // 所有匹配的回复都会发送，可以用多条回复模拟"确认 + 推送"
+    this.rule.replies.forEach(reply => {
+      if (matchMessagePattern(reply.pattern, message)) {
+        this.schedule(() => this.push(reply.data, message), reply.delay);
+      }
+    });
+  }
+
+  close(code?: number, reason?: string) {
+    if (code !== undefined && code !== 1000 && (code < 3000 || code > 4999)) {
+      throw new DOMException(`Failed to execute 'close' on 'WebSocket': The close code must be either 1000, or between 3000 and 4999. ${code} is neither.`, 'InvalidAccessError');
+    }
+    if (reason && new TextEncoder().encode(reason).length > 123) {
+      throw new DOMException("Failed to execute 'close' on 'WebSocket': The close reason must not be greater than 123 UTF-8 bytes.", 'SyntaxError');
+    }
+    if (this.readyState === this.CLOSING || this.readyState === this.CLOSED) return;
+
+    // 连接建立前关闭视为连接失败
+    const connecting = this.readyState === this.CONNECTING;
+    this.clearTimers();
+    this.readyState = this.CLOSING;
+    this.schedule(() => connecting ? this.fail() : this.finish(code ?? 1005, reason || '', true), 0);
+  }
+
+  // 建立连接并启动推送
+  private open(protocols: string[]) {
+    this.readyState = this.OPEN;
+    this.protocol = protocols.includes(this.rule.protocol) ? this.rule.protocol : protocols[0] || '';
+    if (this.log) this.log.status = 'open';
+    this.dispatchEvent(new Event('open'));
+
+    this.rule.onOpen.forEach(message => {
+      this.schedule(() => this.push(message.data), message.delay);
+    });
+    this.rule.timers.filter(timer => timer.interval > 0).forEach(timer => {
+      this.timers.push(window.setInterval(() => this.push(timer.data), timer.interval));
+    });
+    if (this.rule.close.after > 0) {
+      this.schedule(() => this.serverClose(), this.rule.close.after);
+    }
+  }
+
+  // 向页面推送一条消息，incoming 为触发回复的消息
+  private push(source: string, incoming = '') {
+    if (this.readyState !== this.OPEN) return;
+
+    const ctx = createRequestContext(this.url, 'GET', {}, incoming);
+    ctx.params = this.params;
+    const data = renderTemplate(source, ctx);
+    addWebSocketLogMessage(this.log, 'received', data);
+    this.dispatchEvent(new MessageEvent('message', { data, origin: new URL(this.url).origin }));
+  }
+
+  // 服务端主动关闭，1006 表示连接异常断开
+  private serverClose() {
+    const { code, reason } = this.rule.close;
+    if (code === 1006) {
+      this.finish(1006, '', false);
+      return;
+    }
+    this.clearTimers();
+    this.readyState = this.CLOSING;
+    this.schedule(() => this.finish(code, reason, true), 0);
+  }
+
+  // 连接失败：先触发 error 再触发 close
+  private fail() {
+    console.warn(`WebSocket connection to '${this.url}' failed (Mock)`);
+    this.clearTimers();
+    this.readyState = this.CLOSED;
+    if (this.log) {
+      this.log.status = 'failed';
+      this.log.closeCode = 1006;
+    }
+    this.dispatchEvent(new Event('error'));
+    this.dispatchEvent(new CloseEvent('close', { code: 1006, reason: '', wasClean: false }));
+  }
+
+  private finish(code: number, reason: string, wasClean: boolean) {
+    this.clearTimers();
+    this.readyState = this.CLOSED;
+    if (this.log) {
+      this.log.status = 'closed';
+      this.log.closeCode = code;
+      this.log.closeReason = reason;
+    }
+    this.dispatchEvent(new CloseEvent('close', { code, reason, wasClean }));
+  }
+
+  private schedule(callback: () => void, delay: number) {
+    this.timers.push(window.setTimeout(callback, delay));
+  }
+
+  private clearTimers() {
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers = [];
+  }
+}
+
+// 记录真实 WebSocket 连接的收发消息
+function trackWebSocket(socket: WebSocket, log: WebSocketLog) {
+  const send = socket.send;
+  socket.send = function(data) {
+    send.call(this, data);
+    addWebSocketLogMessage(log, 'sent', describeWebSocketData(data));
+  };
+
+  socket.addEventListener('open', () => {
+    log.status = 'open';
+  });
+  socket.addEventListener('message', (e) => {
+    addWebSocketLogMessage(log, 'received', describeWebSocketData(e.data));
+  });
+  socket.addEventListener('close', (e) => {
+    log.status = log.status === 'connecting' ? 'failed' : 'closed';
+    log.closeCode = e.code;
+    log.closeReason = e.reason;
+  });
+}
+
+// 拦截 WebSocket
+function interceptWebSocket() {
+  originalWebSocket = window.WebSocket;
+  if (!originalWebSocket) return;
+
+  const PatchedWebSocket = function(url: string | URL, protocols?: string | string[]) {
+    if (!new.target) {
+      throw new TypeError("Failed to construct 'WebSocket': Please use the 'new' operator, this DOM object constructor cannot be called as a function.");
+    }
+
+    const wsUrl = resolveWebSocketUrl(url);
+    const matched = matchWebSocketRule(wsUrl);
+
+    if (matched) {
+      const log = addWebSocketLog(wsUrl, matched.rule.id);
+
+      if (config.showNotification) {
+        console.log(`🎭 Mock WebSocket: ${wsUrl} -> ${matched.rule.name}`);
+      }
+
+      const requested = protocols === undefined ? [] : typeof protocols === 'string' ? [protocols] : [...protocols];
+      return new MockWebSocket(wsUrl, requested, matched.rule, matched.params, log);
+    }
+
+    // 没有匹配到规则，创建真实连接
+    const socket = protocols === undefined ? new originalWebSocket(url) : new originalWebSocket(url, protocols);
+    const log = addWebSocketLog(socket.url);
+    if (log) trackWebSocket(socket, log);
+    return socket;
+  } as unknown as typeof WebSocket;
+
+  // 保持 WebSocket.OPEN 等常量和 instanceof 判断可用
+  PatchedWebSocket.prototype = originalWebSocket.prototype;
+  ['CONNECTING', 'OPEN', 'CLOSING', 'CLOSED'].forEach((name, value) => {
+    Object.defineProperty(PatchedWebSocket, name, { value, enumerable: true });
+  });
+  Object.defineProperty(PatchedWebSocket, Symbol.hasInstance, {
+    value: (instance: unknown) => instance instanceof originalWebSocket || instance instanceof MockWebSocket,
+  });
+
+  window.WebSocket = PatchedWebSocket;
+}
+
+// 模拟的 EventSource 连接，由匹配的 Mock 规则提供事件流
+class MockEventSource extends EventTarget {
+  static readonly CONNECTING = 0;
+  static readonly OPEN = 1;
+  static readonly CLOSED = 2;
+  readonly CONNECTING = 0;
+  readonly OPEN = 1;
+  readonly CLOSED = 2;
+
+  readonly url: string;
+  readonly withCredentials: boolean;
+  readyState = 0;
+  onopen: ((ev: Event) => any) | null = null;
+  onmessage: ((ev: MessageEvent) => any) | null = null;
+  onerror: ((ev: Event) => any) | null = null;
+
+  private rule: MockRule;
+  private params: Record<string, string>;
+  private lastEventId = '';
+  private retry = 3000; // 重连间隔，可由事件的 retry 字段修改
+  private timer = 0;
+  private stop = () => {};
+
+  constructor(url: string, withCredentials: boolean, rule: MockRule, params: Record<string, string>) {
+    super();
+    this.url = url;
+    this.withCredentials = withCredentials;
+    this.rule = rule;
+    this.params = params;
+
+    // on* 属性作为最先注册的监听器，与原生 EventSource 的触发顺序一致
+    ['open', 'message', 'error'].forEach(type => {
+      this.addEventListener(type, event => {
+        const handler = (this as any)[`on${type}`];
+        if (typeof handler === 'function') handler.call(this, event);
+      });
+    });
+
+    this.connect();
+  }
+
+  close() {
+    this.readyState = this.CLOSED;
+    this.stop();
+    clearTimeout(this.timer);
+  }
+
+  // 建立连接（重连时会带上 Last-Event-ID 请求头，并在请求日志中新增一条记录）
+  private async connect() {
+    if (this.readyState === this.CLOSED) return;
+
+    const headers: Record<string, string> = { accept: 'text/event-stream', 'cache-control': 'no-cache' };
+    if (this.lastEventId) headers['last-event-id'] = this.lastEventId;
+    const ctx = createRequestContext(this.url, 'GET', headers, '');
+    ctx.params = this.params;
+
+    const chaos = rollChaos(true);
+    const log = addRequestLog(ctx, 'eventsource', true, this.rule.id);
+    const mockResponse = await buildMockResponse(this.rule, ctx);
+    applyOutcome(mockResponse, chaos || this.rule.outcome);
+    applyNetworkProfile(mockResponse, this.rule);
+
+    if (log) {
+      log.error = chaos ? `混沌模式：${outcomeLabels[chaos]}` : mockResponse.error;
+      log.response = captureMockResponse(mockResponse);
+    }
+
+    if (mockResponse.delay > 0) {
+      await sleep(mockResponse.delay);
+    }
+    if (this.readyState === this.CLOSED) return;
+
+    // 请求超时时一直挂起，其他网络层失败按规范自动重连
+    if (mockResponse.failure === 'timeout') return;
+    if (mockResponse.failure) {
+      this.reconnect();
+      return;
+    }
+
+    // 状态码不是 200 或类型不是 text/event-stream 时连接失败，不再重连
+    if (mockResponse.status !== 200 || !/^text\/event-stream/i.test(mockResponse.headers['content-type'] || '')) {
+      this.fail();
+      return;
+    }
+
+    mockResponse.cookies.forEach(applySetCookie);
+    this.readyState = this.OPEN;
+    this.dispatchEvent(new Event('open'));
+
+    // 非事件流模式的规则按 text/event-stream 文本解析响应数据，推送完毕后视为服务端关闭连接
+    const stream = mockResponse.stream || { events: () => parseEventStream(mockResponse.body), onEnd: 'close' as const };
+    this.stop = playEventStream(stream, event => this.emit(event, log), error => error ? this.fail() : this.reconnect());
+  }
+
+  private emit(event: StreamEvent, log: RequestLog | null) {
+    if (event.id) this.lastEventId = event.id;
+    if (event.retry !== undefined) this.retry = event.retry;
+    addStreamLogEvent(log, event);
+    if (!event.data) return;
+
+    this.dispatchEvent(new MessageEvent(event.event || 'message', {
+      data: event.data,
+      lastEventId: this.lastEventId,
+      origin: new URL(this.url).origin,
+    }));
+  }
+
+  // 连接断开：触发 error 后按重连间隔重新连接
+  private reconnect() {
+    this.stop();
+    if (this.readyState === this.CLOSED) return;
+    this.readyState = this.CONNECTING;
+    this.dispatchEvent(new Event('error'));
+    if (this.readyState === this.CLOSED) return;
+    this.timer = window.setTimeout(() => this.connect(), this.retry);
+  }
+
+  // 连接失败：触发 error 并关闭，不再重连
+  private fail() {
+    this.stop();
+    if (this.readyState === this.CLOSED) return;
+    this.readyState = this.CLOSED;
+    this.dispatchEvent(new Event('error'));
+  }
+}
+
+// 拦截 EventSource
+function interceptEventSource() {
+  originalEventSource = window.EventSource;
+  if (!originalEventSource) return;
+
+  const PatchedEventSource = function(url: string | URL, init?: EventSourceInit) {
+    if (!new.target) {
+      throw new TypeError("Failed to construct 'EventSource': Please use the 'new' operator, this DOM object constructor cannot be called as a function.");
+    }
+
+    let resolvedUrl: string;
+    try {
+      resolvedUrl = new URL(String(url), location.href).href;
+    } catch (e) {
+      throw new DOMException(`Failed to construct 'EventSource': Cannot open an EventSource to '${url}'. The URL is invalid.`, 'SyntaxError');
+    }
+
+    const ctx = createRequestContext(resolvedUrl, 'GET', { accept: 'text/event-stream' }, '');
+    const rule = matchRule(ctx);
+
+    // 修改真实响应模式不支持事件流，照常连接
+    if (rule && rule.responseMode !== 'patch') {
+      if (config.showNotification) {
+        console.log(`🎭 Mock EventSource: ${resolvedUrl} -> ${rule.name}`);
+      }
+      return new MockEventSource(resolvedUrl, !!init?.withCredentials, rule, ctx.params);
+    }
+
+    addRequestLog(ctx, 'eventsource', false);
+    return new originalEventSource(url, init);
+  } as unknown as typeof EventSource;
+
+  // 保持 EventSource.OPEN 等常量和 instanceof 判断可用
+  PatchedEventSource.prototype = originalEventSource.prototype;
+  ['CONNECTING', 'OPEN', 'CLOSED'].forEach((name, value) => {
+    Object.defineProperty(PatchedEventSource, name, { value, enumerable: true });
+  });
+  Object.defineProperty(PatchedEventSource, Symbol.hasInstance, {
+    value: (instance: unknown) => instance instanceof originalEventSource || instance instanceof MockEventSource,
+  });
+
+  window.EventSource = PatchedEventSource;
+}
+
+// 生成唯一 ID
+function generateId(): string {
+  return Date.now().toString(36) + Math.random().toString(36).substr(2);
+}
+
+// 转义正则表达式特殊字符
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// 转义 HTML 特殊字符
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// 渲染响应头行
+function renderHeaderRow(header?: ResponseHeader): string {
+  const h = header || { name: '', value: '' };
+  return `
+    <div class="mock-header-row">
+      <input type="text" class="mock-form-input" name="headerName" value="${escapeHtml(h.name)}" placeholder="名称，如 X-Total-Count">
+      <input type="text" class="mock-form-input" name="headerValue" value="${escapeHtml(h.value)}" placeholder="值，支持模板语法">
+      <button type="button" class="mock-btn mock-btn-danger" data-action="remove-header">×</button>
+    </div>
+  `;
+}
+
+// 渲染代码编辑器：语法高亮层位于透明文字的输入框下方；language 为空时跟随规则的响应类型
+function renderCodeEditor(name: string, value: string, placeholder = '', language = ''): string {
+  return `
+    <div class="mock-code-editor" ${language ? `data-language="${language}"` : ''}>
+      <div class="mock-code-toolbar">
+        <button type="button" class="mock-btn mock-btn-secondary" data-action="format-json">格式化</button>
+        <button type="button" class="mock-btn mock-btn-secondary" data-action="minify-json">压缩</button>
+        <span class="mock-code-status"></span>
+      </div>
+      <div class="mock-code-body">
+        <pre class="mock-code-highlight" aria-hidden="true"></pre>
+        <textarea class="mock-form-textarea mock-code-input" name="${name}" spellcheck="false" placeholder="${escapeHtml(placeholder)}">${escapeHtml(value)}</textarea>
+      </div>
+    </div>
+  `;
+}
+
+// 语法高亮：JSON 高亮键、字符串、数字和字面量，其余语言只高亮模板标签；marks 为需要额外标记的字符位置及样式
+function highlightCode(source: string, language: string, marks: Record<number, string>): string {
+  const re = language === 'json'
+    ? /(\{\{[\s\S]*?\}\})|("(?:[^"\\\n]|\\.)*"?)(\s*:)?|(-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)|\b(true|false|null)\b/g
+    : /(\{\{[\s\S]*?\}\})/g;
+  const text = (start: number, end: number) => {
+    let html = '';
+    for (let i = start; i < end;) {
+      if (marks[i]) {
+        html += `<span class="mock-hl-${marks[i]}">${escapeHtml(source[i])}</span>`;
+        i++;
+        continue;
+      }
+      let next = i + 1;
+      while (next < end && !marks[next]) next++;
+      html += escapeHtml(source.slice(i, next));
+      i = next;
+    }
+    return html;
+  };
+
+  let html = '';
+  let last = 0;
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(source))) {
+    const cls = m[1] ? 'template' : m[2] ? (m[3] ? 'key' : 'string') : m[4] ? 'number' : 'literal';
+    const end = m.index + (m[2] ? m[2].length : m[0].length);
+    html += text(last, m.index) + `<span class="mock-hl-${cls}">${text(m.index, end)}</span>`;
+    last = end;
+    re.lastIndex = end;
+  }
+  html += text(last, source.length);
+  // 错误位于末尾时用空格标出；结尾补一个空格，保证末尾空行与输入框等高
+  return html + (marks[source.length] ? `<span class="mock-hl-${marks[source.length]}"> </span>` : ' ');
+}
+
+// 计算括号的配对位置（跳过字符串和模板标签），没有配对的括号对应 -1
+function matchBrackets(source: string, language: string): Map<number, number> {
+  const pairs = new Map<number, number>();
+  const stack: number[] = [];
+  const quotes = language === 'json' ? '"' : `"'\``;
+  let quote = '';
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+      continue;
+    }
+    if (char === '{' && source[i + 1] === '{') {
+      const end = source.indexOf('}}', i + 2);
+      if (end !== -1) {
+        i = end + 1;
+        continue;
+      }
+    }
+    if (quotes.includes(char)) {
+      quote = char;
+    } else if ('{[('.includes(char)) {
+      stack.push(i);
+    } else if ('}])'.includes(char)) {
+      const open = stack.pop();
+      if (open !== undefined && '{[('.indexOf(source[open]) === '}])'.indexOf(char)) {
+        pairs.set(open, i);
+        pairs.set(i, open);
+      } else {
+        if (open !== undefined) stack.push(open);
+        pairs.set(i, -1);
+      }
+    }
+  }
+  stack.forEach(open => pairs.set(open, -1));
+  return pairs;
+}
+
+// 重新排版 JSON 文本，indent 为 0 时压缩为一行；模板标签原样保留
+function reformatJson(source: string, indent: number): string {
+  const newline = (depth: number) => indent ? '\n' + ' '.repeat(depth * indent) : '';
+  let result = '';
+  let depth = 0;
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (char === '{' && source[i + 1] === '{') {
+      const end = source.indexOf('}}', i + 2);
+      if (end !== -1) {
+        result += source.slice(i, end + 2);
+        i = end + 1;
+        continue;
+      }
+    }
+    if (char === '"') {
+      let end = i + 1;
+      while (end < source.length && source[end] !== '"') {
+        end += source[end] === '\\' ? 2 : 1;
+      }
+      result += source.slice(i, end + 1);
+      i = end;
+    } else if (char === '{' || char === '[') {
+      // 空对象和空数组保持在一行
+      const next = source.slice(i + 1).search(/\S/);
+      if (next !== -1 && source[i + 1 + next] === (char === '{' ? '}' : ']')) {
+        result += char + source[i + 1 + next];
+        i += next + 1;
+      } else {
+        depth++;
+        result += char + newline(depth);
+      }
+    } else if (char === '}' || char === ']') {
+      depth = Math.max(0, depth - 1);
+      result += newline(depth) + char;
+    } else if (char === ',') {
+      result += ',' + newline(depth);
+    } else if (char === ':') {
+      result += indent ? ': ' : ':';
+    } else if (!/\s/.test(char)) {
+      result += char;
+    }
+  }
+  return result;
+}
+
+// 刷新代码编辑器的语法高亮、括号匹配和校验状态
+function updateCodeEditor(editor: HTMLElement, language: string) {
+  const input = editor.querySelector('.mock-code-input') as HTMLTextAreaElement;
+  const highlight = editor.querySelector('.mock-code-highlight') as HTMLElement;
+  const status = editor.querySelector('.mock-code-status') as HTMLElement;
+  const source = input.value;
+  const isJson = language === 'json';
+  editor.classList.toggle('mock-code-json', isJson);
+
+  const marks: Record<number, string> = {};
+  let message = '';
+  let valid = true;
+  if (isJson && source.trim()) {
+    const error = checkJson(source);
+    if (error) {
+      valid = false;
+      message = `✗ 第 ${error.line} 行第 ${error.column} 列：${error.message}`;
+      marks[error.position] = 'error';
+    } else {
+      message = source.includes('{{') ? '✓ JSON 格式正确（模板标签按占位值校验）' : '✓ JSON 格式正确';
+    }
+  } else if (!isJson && language !== 'function') {
+    const error = validateResponseData(language as MockRule['responseType'], source);
+    if (error) {
+      valid = false;
+      message = `✗ ${error}`;
+    }
+  }
+  status.textContent = message;
+  status.className = `mock-code-status ${valid ? 'mock-code-status-ok' : 'mock-code-status-error'}`;
+
+  // 内容过大时不做高亮，直接显示输入框中的文字
+  const plain = source.length > 100000;
+  editor.classList.toggle('mock-code-plain', plain);
+  if (plain) {
+    highlight.innerHTML = '';
+    return;
+  }
+
+  // 标记光标旁的括号及其配对括号
+  if (document.activeElement === input && input.selectionStart === input.selectionEnd) {
+    const pairs = matchBrackets(source, language);
+    const caret = input.selectionStart;
+    const index = pairs.has(caret - 1) ? caret - 1 : pairs.has(caret) ? caret : -1;
+    if (index !== -1) {
+      const match = pairs.get(index)!;
+      marks[index] = match === -1 ? 'unmatched' : 'bracket';
+      if (match !== -1) marks[match] = 'bracket';
+    }
+  }
+  highlight.innerHTML = highlightCode(source, language, marks);
+  highlight.scrollTop = input.scrollTop;
+}
+
+// 为容器内的代码编辑器绑定事件（事件委托，动态添加的编辑器同样生效）
+function setupCodeEditors(container: HTMLElement, getLanguage: (editor: HTMLElement) => string) {
+  const refresh = (target: EventTarget | null) => {
+    const element = target as HTMLElement;
+    if (!element?.classList?.contains('mock-code-input')) return;
+    const editor = element.closest('.mock-code-editor') as HTMLElement;
+    updateCodeEditor(editor, getLanguage(editor));
+  };
+
+  container.querySelectorAll<HTMLElement>('.mock-code-editor').forEach(editor => updateCodeEditor(editor, getLanguage(editor)));
+  ['input', 'keyup', 'focusin', 'focusout', 'select'].forEach(type => {
+    container.addEventListener(type, e => refresh(e.target));
+  });
+  // scroll 事件不冒泡，在捕获阶段同步高亮层的滚动位置
+  container.addEventListener('scroll', (e) => {
+    const element = e.target as HTMLElement;
+    if (!element.classList?.contains('mock-code-input')) return;
+    const highlight = element.parentElement?.querySelector('.mock-code-highlight') as HTMLElement | null;
+    if (highlight) highlight.scrollTop = element.scrollTop;
+  }, true);
+
+  container.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const action = target.getAttribute('data-action');
+    if (action !== 'format-json' && action !== 'minify-json') {
+      refresh(target);
+      return;
+    }
+
+    const editor = target.closest('.mock-code-editor') as HTMLElement;
+    const input = editor.querySelector('.mock-code-input') as HTMLTextAreaElement;
+    const error = checkJson(input.value);
+    if (error) {
+      alert(`JSON 第 ${error.line} 行第 ${error.column} 列有误，无法${action === 'format-json' ? '格式化' : '压缩'}：${error.message}`);
+      return;
+    }
+    input.value = reformatJson(input.value, action === 'format-json' ? 2 : 0);
+    updateCodeEditor(editor, getLanguage(editor));
+  });
+}
+
+// 渲染响应序列步骤
+function renderSequenceStep(step?: SequenceStep): string {
+  const st = step || { responseData: '{}', statusCode: 200, delay: 0 };
+  return `
+    <div class="mock-sequence-step">
+      <div class="mock-sequence-step-fields">
+        <label>状态码 <input type="number" class="mock-form-input" name="stepStatus" value="${st.statusCode}" min="200" max="599"></label>
+        <label>延迟(ms) <input type="number" class="mock-form-input" name="stepDelay" value="${st.delay}" min="0"></label>
+        <button type="button" class="mock-btn mock-btn-danger" data-action="remove-step">删除</button>
+      </div>
+      ${renderCodeEditor('stepData', st.responseData)}
+    </div>
+  `;
+}
+
+// 渲染事件流中的事件
+function renderStreamEvent(event?: StreamEvent): string {
+  const ev = event || { delay: 1000, id: '', event: '', data: '' };
+  return `
+    <div class="mock-stream-event">
+      <div class="mock-sequence-step-fields">
+        <label>延迟(ms) <input type="number" class="mock-form-input" name="eventDelay" value="${ev.delay}" min="0"></label>
+        <label>事件名 <input type="text" class="mock-form-input" name="eventName" value="${escapeHtml(ev.event)}" placeholder="message"></label>
+        <label>ID <input type="text" class="mock-form-input" name="eventId" value="${escapeHtml(ev.id)}"></label>
+        <label>retry <input type="number" class="mock-form-input" name="eventRetry" value="${ev.retry ?? ''}" min="0"></label>
+        <button type="button" class="mock-btn mock-btn-danger" data-action="remove-event">删除</button>
+      </div>
+      <textarea class="mock-form-textarea" name="eventData" placeholder="事件数据，支持模板语法">${escapeHtml(ev.data)}</textarea>
+    </div>
+  `;
+}
+
+// 渲染请求条件行
+function renderMatcherRow(matcher?: RequestMatcher): string {
+  const m = matcher || { source: 'body', key: '', operator: 'equals', value: '' };
+  return `
+    <div class="mock-matcher-row">
+      <select class="mock-form-select" name="matcherSource">
+        <option value="query" ${m.source === 'query' ? 'selected' : ''}>查询参数</option>
+        <option value="header" ${m.source === 'header' ? 'selected' : ''}>请求头</option>
+        <option value="body" ${m.source === 'body' ? 'selected' : ''}>请求体</option>
+      </select>
+      <input type="text" class="mock-form-input" name="matcherKey" value="${escapeHtml(m.key)}" placeholder="字段名，如 id / $.user.id">
+      <select class="mock-form-select" name="matcherOperator">
+        <option value="equals" ${m.operator === 'equals' ? 'selected' : ''}>等于</option>
+        <option value="contains" ${m.operator === 'contains' ? 'selected' : ''}>包含</option>
+        <option value="regex" ${m.operator === 'regex' ? 'selected' : ''}>正则</option>
+        <option value="exists" ${m.operator === 'exists' ? 'selected' : ''}>存在</option>
+      </select>
+      <input type="text" class="mock-form-input" name="matcherValue" value="${escapeHtml(m.value)}" placeholder="期望值">
+      <button type="button" class="mock-btn mock-btn-danger" data-action="remove-matcher">×</button>
+    </div>
+  `;
+}
+
+// 创建控制面板
+function createControlPanel() {
+  // 添加样式
+  GMCompat.addStyle(`
+    .mock-panel {
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      width: 90%;
+      max-width: 900px;
+      max-height: 90vh;
+      background: #fff;
+      border-radius: 12px;
+      box-shadow: 0 20px 60px rgba(0, 0, 0, 0.3);
+      z-index: 999999;
+      display: none;
+      flex-direction: column;
+      overflow: hidden;
+    }
+
+    .mock-panel.show {
+      display: flex;
+    }
+
+    .mock-panel-header {
+      padding: 20px 24px;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+
+    .mock-panel-title {
+      font-size: 18px;
+      font-weight: 600;
+      margin: 0;
+    }
+
+    .mock-panel-close {
+      background: rgba(255, 255, 255, 0.2);
+      border: none;
+      color: white;
+      width: 32px;
+      height: 32px;
+      border-radius: 50%;
+      cursor: pointer;
+      font-size: 20px;
+      line-height: 1;
+      transition: background 0.2s;
+    }
+
+    .mock-panel-close:hover {
+      background: rgba(255, 255, 255, 0.3);
+    }
+
+    .mock-panel-tabs {
+      display: flex;
+      background: #f5f5f5;
+      border-bottom: 1px solid #e0e0e0;
+    }
+
+    .mock-panel-tab {
+      padding: 12px 24px;
+      background: none;
+      border: none;
+      cursor: pointer;
+      font-size: 14px;
+      color: #666;
+      transition: all 0.2s;
+      border-bottom: 2px solid transparent;
+    }
+
+    .mock-panel-tab.active {
+      color: #667eea;
+      border-bottom-color: #667eea;
+      background: white;
+    }
+
+    .mock-panel-content {
+      flex: 1;
+      overflow-y: auto;
+      padding: 24px;
+    }
+
+    .mock-rule {
+      background: #f9f9f9;
+      border: 1px solid #e0e0e0;
+      border-radius: 8px;
+      padding: 16px;
+      margin-bottom: 12px;
+    }
+
+    .mock-rule-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      margin-bottom: 12px;
+    }
+
+    .mock-rule-name {
+      font-weight: 600;
+      font-size: 16px;
+      color: #333;
+    }
+
+    .mock-rule-actions {
+      display: flex;
+      gap: 8px;
+    }
+
+    .mock-btn {
+      padding: 6px 12px;
+      border: none;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 12px;
+      transition: all 0.2s;
+    }
+
+    .mock-btn-primary {
+      background: #667eea;
+      color: white;
+    }
+
+    .mock-btn-primary:hover {
+      background: #5568d3;
+    }
+
+    .mock-btn-danger {
+      background: #f5576c;
+      color: white;
+    }
+
+    .mock-btn-danger:hover {
+      background: #e04556;
+    }
+
+    .mock-btn-secondary {
+      background: #e0e0e0;
+      color: #333;
+    }
+
+    .mock-btn-secondary:hover {
+      background: #d0d0d0;
+    }
+
+    .mock-form-group {
+      margin-bottom: 16px;
+    }
+
+    .mock-form-label {
+      display: block;
+      margin-bottom: 6px;
+      font-weight: 500;
+      color: #333;
+      font-size: 14px;
+    }
+
+    .mock-form-input,
+    .mock-form-select,
+    .mock-form-textarea {
+      width: 100%;
+      padding: 8px 12px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      font-size: 14px;
+      font-family: inherit;
+      box-sizing: border-box;
+    }
+
+    .mock-form-textarea {
+      min-height: 120px;
+      font-family: 'Monaco', 'Menlo', 'Consolas', monospace;
+    }
+
+    .mock-code-toolbar {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 4px;
+      font-size: 12px;
+    }
+
+    .mock-code-toolbar .mock-btn {
+      padding: 2px 8px;
+      font-size: 12px;
+    }
+
+    .mock-code-editor:not(.mock-code-json) .mock-code-toolbar .mock-btn {
+      display: none;
+    }
+
+    .mock-code-status-ok {
+      color: #52c41a;
+    }
+
+    .mock-code-status-error {
+      color: #ff4d4f;
+    }
+
+    .mock-code-body {
+      position: relative;
+      background: white;
+      border-radius: 4px;
+    }
+
+    .mock-code-highlight,
+    .mock-code-body .mock-code-input {
+      margin: 0;
+      padding: 8px 12px;
+      border: 1px solid transparent;
+      font-family: 'Monaco', 'Menlo', 'Consolas', monospace;
+      font-size: 14px;
+      line-height: 1.5;
+      letter-spacing: normal;
+      white-space: pre-wrap;
+      overflow-wrap: anywhere;
+      tab-size: 2;
+      box-sizing: border-box;
+      scrollbar-gutter: stable;
+    }
+
+    .mock-code-highlight {
+      position: absolute;
+      inset: 0;
+      overflow: hidden;
+      pointer-events: none;
+      color: #333;
+    }
+
+    .mock-code-body .mock-code-input {
+      position: relative;
+      display: block;
+      border-color: #ddd;
+      background: transparent;
+      color: transparent;
+      caret-color: #333;
+      resize: vertical;
+    }
+
+    .mock-code-body .mock-code-input::placeholder {
+      color: #999;
+    }
+
+    .mock-code-plain .mock-code-body .mock-code-input {
+      color: #333;
+    }
+
+    .mock-hl-key { color: #0451a5; }
+    .mock-hl-string { color: #a31515; }
+    .mock-hl-number { color: #098658; }
+    .mock-hl-literal { color: #0000ff; }
+    .mock-hl-template { color: #af00db; background: #f9f0ff; }
+    .mock-hl-bracket { background: #d6ecff; outline: 1px solid #91caff; }
+    .mock-hl-unmatched { background: #ffccc7; }
+    .mock-hl-error { background: #fff1f0; text-decoration: wavy underline #ff4d4f; }
+
+    .mock-toggle-btn {
+      position: fixed;
+      bottom: 20px;
+      right: 20px;
+      width: 56px;
+      height: 56px;
+      border-radius: 50%;
+      background: linear-gradient(135deg, #667eea 0%, #764ba2 100%);
+      color: white;
+      border: none;
+      font-size: 24px;
+      cursor: pointer;
+      box-shadow: 0 4px 12px rgba(0, 0, 0, 0.15);
+      z-index: 999998;
+      transition: all 0.3s;
+    }
+
+    .mock-toggle-btn:hover {
+      transform: scale(1.1);
+      box-shadow: 0 6px 16px rgba(0, 0, 0, 0.2);
+    }
+
+    .mock-toggle-btn.disabled {
+      background: linear-gradient(135deg, #ccc 0%, #999 100%);
+    }
+
+    .mock-status {
+      display: inline-block;
+      padding: 4px 8px;
+      border-radius: 4px;
+      font-size: 12px;
+      font-weight: 500;
+    }
+
+    .mock-status.enabled {
+      background: #d4edda;
+      color: #155724;
     }
 
     .mock-status.disabled {
@@ -543,153 +4303,1520 @@ function createControlPanel() {
       color: #721c24;
     }
 
-    .mock-log-item {
-      padding: 12px;
-      border-bottom: 1px solid #e0e0e0;
-      font-size: 13px;
+    .mock-log-item {
+      padding: 12px;
+      border-bottom: 1px solid #e0e0e0;
+      font-size: 13px;
+    }
+
+    .mock-log-item:last-child {
+      border-bottom: none;
+    }
+
+    .mock-log-matched {
+      background: #d4edda;
+    }
+
+    .mock-log-item[data-id] {
+      cursor: pointer;
+    }
+
+    .mock-log-item[data-id]:hover {
+      background: #f5f7ff;
+    }
+
+    .mock-log-matched[data-id]:hover {
+      background: #c3e6cb;
+    }
+
+    .mock-log-actions {
+      display: inline-flex;
+      gap: 6px;
+      margin-left: auto;
+    }
+
+    .mock-log-actions .mock-btn {
+      padding: 2px 8px;
+      font-size: 12px;
+    }
+
+    .mock-pattern-suggestions {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 6px;
+      margin-top: 6px;
+      font-size: 12px;
+      color: #666;
+    }
+
+    .mock-pattern-suggestions .mock-btn {
+      padding: 2px 8px;
+      font-size: 12px;
+    }
+
+    .mock-pattern-suggestions .mock-pattern-active {
+      background: #667eea;
+      color: white;
+    }
+
+    .mock-log-meta {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 12px;
+      font-size: 12px;
+      color: #666;
+    }
+
+    .mock-log-status-ok {
+      color: #52c41a;
+      font-weight: 600;
+    }
+
+    .mock-log-status-error {
+      color: #ff4d4f;
+      font-weight: 600;
+    }
+
+    .mock-log-filters {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+      margin-bottom: 12px;
+    }
+
+    .mock-log-filters .mock-form-input {
+      flex: 1;
+      min-width: 180px;
+    }
+
+    .mock-log-filters .mock-form-select {
+      width: auto;
+    }
+
+    .mock-log-drawer {
+      position: absolute;
+      top: 0;
+      right: 0;
+      bottom: 0;
+      width: min(600px, 85%);
+      padding: 16px;
+      background: #fff;
+      box-shadow: -8px 0 24px rgba(0, 0, 0, 0.15);
+      overflow-y: auto;
+      box-sizing: border-box;
+      z-index: 10;
+      font-size: 13px;
+    }
+
+    .mock-log-drawer h4 {
+      margin: 16px 0 6px;
+    }
+
+    .mock-log-drawer-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: flex-start;
+      gap: 12px;
+    }
+
+    .mock-log-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 12px;
+    }
+
+    .mock-log-table td {
+      padding: 4px 6px;
+      border-bottom: 1px solid #f0f0f0;
+      vertical-align: top;
+      word-break: break-all;
+    }
+
+    .mock-log-table td:first-child {
+      width: 30%;
+      color: #666;
+    }
+
+    .mock-log-pre {
+      margin: 0;
+      padding: 8px;
+      max-height: 320px;
+      overflow: auto;
+      background: #f6f8fa;
+      border-radius: 4px;
+      font-size: 12px;
+      white-space: pre-wrap;
+      word-break: break-all;
+    }
+
+    .mock-log-image {
+      display: block;
+      max-width: 100%;
+      max-height: 240px;
+      margin-top: 6px;
+    }
+
+    .mock-toolbar {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+      margin-bottom: 16px;
+    }
+
+    .mock-matcher-row {
+      display: grid;
+      grid-template-columns: 100px 1fr 90px 1fr auto;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+
+    .mock-header-row {
+      display: grid;
+      grid-template-columns: 1fr 2fr auto;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+
+    .mock-sequence-steps {
+      counter-reset: step;
+    }
+
+    .mock-sequence-step {
+      border: 1px dashed #ccc;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 8px;
+    }
+
+    .mock-sequence-step::before {
+      counter-increment: step;
+      content: '第 ' counter(step) ' 步';
+      display: block;
+      font-size: 12px;
+      font-weight: 600;
+      color: #667eea;
+      margin-bottom: 6px;
+    }
+
+    .mock-sequence-step-fields {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 8px;
+      font-size: 12px;
+      color: #666;
+    }
+
+    .mock-sequence-step-fields label {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      white-space: nowrap;
+    }
+
+    .mock-sequence-step-fields .mock-form-input {
+      width: 90px;
+    }
+
+    .mock-scenario-select {
+      background: rgba(255, 255, 255, 0.2);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.4);
+      border-radius: 4px;
+      padding: 6px 8px;
+      font-size: 13px;
+      cursor: pointer;
+    }
+
+    .mock-scenario-select option {
+      color: #333;
+    }
+
+    .mock-scenario-rule {
+      border-bottom: 1px solid #e0e0e0;
+      padding: 8px 0;
+      font-size: 13px;
+    }
+
+    .mock-scenario-rule details {
+      margin: 6px 0 0 24px;
+    }
+
+    .mock-scenario-rule-fields {
+      display: flex;
+      gap: 8px;
+      margin-bottom: 8px;
+    }
+
+    .mock-stream-events {
+      counter-reset: event;
+    }
+
+    .mock-stream-event {
+      border: 1px dashed #ccc;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 8px;
+    }
+
+    .mock-stream-event::before {
+      counter-increment: event;
+      content: '事件 ' counter(event);
+      display: block;
+      font-size: 12px;
+      font-weight: 600;
+      color: #667eea;
+      margin-bottom: 6px;
+    }
+
+    .mock-ws-message {
+      border: 1px dashed #ccc;
+      border-radius: 4px;
+      padding: 8px;
+      margin-bottom: 8px;
+    }
+
+    .mock-ws-message .mock-ws-pattern {
+      flex: 1;
+      width: auto;
+    }
+
+    .mock-ws-log-message {
+      display: flex;
+      gap: 8px;
+      font-size: 12px;
+      padding: 2px 0;
+      word-break: break-all;
+    }
+
+    .mock-form-group code {
+      background: #e8f0fe;
+      padding: 2px 6px;
+      border-radius: 3px;
+      font-family: 'Monaco', 'Menlo', 'Consolas', monospace;
+      font-size: 11px;
+      color: #1a73e8;
+    }
+  `);
+
+  // 创建面板 HTML
+  const panel = document.createElement('div');
+  panel.className = 'mock-panel';
+  panel.innerHTML = `
+    <div class="mock-panel-header">
+      <h3 class="mock-panel-title">🎭 Mock 数据管理</h3>
+      <div style="display: flex; align-items: center; gap: 12px;">
+        <select class="mock-scenario-select" title="切换场景"></select>
+        <button class="mock-panel-close">×</button>
+      </div>
+    </div>
+    <div class="mock-panel-tabs">
+      <button class="mock-panel-tab active" data-tab="rules">Mock 规则</button>
+      <button class="mock-panel-tab" data-tab="scenarios">场景</button>
+      <button class="mock-panel-tab" data-tab="websocket">WebSocket</button>
+      <button class="mock-panel-tab" data-tab="logs">请求日志</button>
+      <button class="mock-panel-tab" data-tab="settings">设置</button>
+    </div>
+    <div class="mock-panel-content">
+      <div id="mock-tab-rules"></div>
+      <div id="mock-tab-scenarios" style="display: none;"></div>
+      <div id="mock-tab-websocket" style="display: none;"></div>
+      <div id="mock-tab-logs" style="display: none;"></div>
+      <div id="mock-tab-settings" style="display: none;"></div>
+    </div>
+  `;
+
+  // 创建切换按钮
+  const toggleBtn = document.createElement('button');
+  toggleBtn.className = 'mock-toggle-btn';
+  toggleBtn.textContent = '🎭';
+  toggleBtn.title = 'Mock 数据管理';
+
+  // 等待 body 加载
+  const addToPage = () => {
+    if (document.body) {
+      document.body.appendChild(panel);
+      document.body.appendChild(toggleBtn);
+      initPanelEvents(panel, toggleBtn);
+    } else {
+      setTimeout(addToPage, 100);
+    }
+  };
+
+  addToPage();
+}
+
+// 初始化面板事件
+function initPanelEvents(panel: HTMLElement, toggleBtn: HTMLElement) {
+  // 切换按钮点击
+  toggleBtn.addEventListener('click', () => {
+    panel.classList.toggle('show');
+    if (panel.classList.contains('show')) {
+      renderRules();
+    }
+  });
+
+  // 关闭按钮
+  const closeBtn = panel.querySelector('.mock-panel-close');
+  closeBtn?.addEventListener('click', () => {
+    panel.classList.remove('show');
+  });
+
+  // 场景切换
+  renderScenarioSelect();
+  panel.querySelector('.mock-scenario-select')?.addEventListener('change', (e) => {
+    config.activeScenarioId = (e.target as HTMLSelectElement).value || null;
+    saveConfig();
+    const activeTab = panel.querySelector('.mock-panel-tab.active')?.getAttribute('data-tab');
+    if (activeTab) switchTab(activeTab);
+  });
+
+  // Tab 切换
+  const tabs = panel.querySelectorAll('.mock-panel-tab');
+  tabs.forEach(tab => {
+    tab.addEventListener('click', () => {
+      const targetTab = tab.getAttribute('data-tab');
+      if (targetTab) switchTab(targetTab);
+    });
+  });
+
+  // 更新按钮状态
+  function updateToggleBtnState() {
+    if (config.enabled) {
+      toggleBtn.classList.remove('disabled');
+      toggleBtn.title = 'Mock 已启用 - 点击管理';
+    } else {
+      toggleBtn.classList.add('disabled');
+      toggleBtn.title = 'Mock 已禁用 - 点击管理';
+    }
+  }
+
+  updateToggleBtnState();
+}
+
+// 切换 Tab（不渲染内容）
+function showTab(targetTab: string) {
+  // 更新 Tab 状态
+  document.querySelectorAll('.mock-panel-tab').forEach(t => {
+    t.classList.toggle('active', t.getAttribute('data-tab') === targetTab);
+  });
+
+  // 显示对应内容
+  const contents = ['rules', 'scenarios', 'websocket', 'logs', 'settings'];
+  contents.forEach(name => {
+    const content = document.getElementById(`mock-tab-${name}`);
+    if (content) {
+      content.style.display = name === targetTab ? 'block' : 'none';
+    }
+  });
+}
+
+// 切换 Tab 并渲染内容
+function switchTab(targetTab: string) {
+  showTab(targetTab);
+
+  // 渲染内容
+  if (targetTab === 'rules') renderRules();
+  if (targetTab === 'scenarios') renderScenarios();
+  if (targetTab === 'websocket') renderWebSockets();
+  if (targetTab === 'logs') renderLogs();
+  if (targetTab === 'settings') renderSettings();
+}
+
+// 渲染规则列表
+function renderRules() {
+  const container = document.getElementById('mock-tab-rules');
+  if (!container) return;
+
+  const html = `
+    <div class="mock-toolbar">
+      <button class="mock-btn mock-btn-primary" id="mock-add-rule">+ 添加规则</button>
+      <button class="mock-btn mock-btn-secondary" id="mock-import">导入配置</button>
+      <button class="mock-btn mock-btn-secondary" id="mock-export">导出配置</button>
+      <button class="mock-btn mock-btn-secondary" id="mock-import-har">导入 HAR</button>
+      <button class="mock-btn mock-btn-secondary" id="mock-import-openapi">导入 OpenAPI</button>
+      <button class="mock-btn mock-btn-secondary" id="mock-test-rules">规则测试</button>
+      <span style="margin-left: auto; color: #666; font-size: 13px; align-self: center;">
+        本页生效 ${getEffectiveRules().filter(r => r.enabled && isRuleActiveOnPage(r)).length} / ${config.rules.length} 条
+      </span>
+    </div>
+    ${getActiveScenario() ? `
+      <div style="margin-bottom: 12px; padding: 8px 12px; background: #fff3cd; color: #856404; border-radius: 4px; font-size: 13px;">
+        当前场景：<strong>${escapeHtml(getActiveScenario()!.name)}</strong>，规则的启用状态和响应由场景决定
+      </div>
+    ` : ''}
+    <div id="mock-rules-list">
+      ${config.rules.length === 0 ? '<p style="color: #999; text-align: center; padding: 40px 0;">暂无规则，点击上方按钮添加</p>' : ''}
+      ${config.rules.map(rule => `
+        <div class="mock-rule">
+          <div class="mock-rule-header">
+            <div>
+              <span class="mock-rule-name">${escapeHtml(rule.name)}</span>
+              <span class="mock-status ${isRuleEnabled(rule) ? 'enabled' : 'disabled'}">
+                ${isRuleEnabled(rule) ? '已启用' : '已禁用'}
+              </span>
+              ${isRuleActiveOnPage(rule) ? '' : '<span class="mock-status disabled">非本页</span>'}
+            </div>
+            <div class="mock-rule-actions">
+              <button class="mock-btn mock-btn-primary" data-action="edit" data-id="${rule.id}">编辑</button>
+              <button class="mock-btn mock-btn-secondary" data-action="toggle" data-id="${rule.id}">
+                ${isRuleEnabled(rule) ? '禁用' : '启用'}
+              </button>
+              <button class="mock-btn mock-btn-danger" data-action="delete" data-id="${rule.id}">删除</button>
+            </div>
+          </div>
+          <div style="font-size: 13px; color: #666; margin-top: 8px;">
+            <div><strong>方法:</strong> ${escapeHtml(rule.method)}${rule.matchers && rule.matchers.length > 0 ? ` | <strong>条件:</strong> ${rule.matchers.length} 个` : ''}</div>
+            <div><strong>URL:</strong> ${rule.urlMatchType ? `[${urlMatchTypeLabels[rule.urlMatchType]}] ` : ''}${escapeHtml(rule.urlPattern)}</div>
+            ${rule.outcome && rule.outcome !== 'response' && rule.responseMode !== 'patch' ? `<div><strong>响应结果:</strong> 模拟${outcomeLabels[rule.outcome]}</div>` : ''}
+            ${rule.pageUrlPattern ? `<div><strong>生效页面:</strong> ${escapeHtml(rule.pageUrlPattern)}</div>` : ''}
+            ${rule.responseMode === 'patch'
+              ? `<div><strong>修改真实响应:</strong> ${rule.patch?.statusCode ? `状态码 → ${rule.patch.statusCode}` : '保留真实状态码'}</div>`
+              : `<div><strong>状态码:</strong> ${rule.statusCode} | <strong>延迟:</strong> ${rule.network && rule.network.preset !== 'default' && rule.network.preset !== 'custom'
+                ? `${rule.delay > 0 ? `${rule.delay}ms + ` : ''}${networkPresets[rule.network.preset]?.label ?? rule.network.preset}`
+                : `${rule.delay}${rule.network?.preset === 'custom' && rule.network.delayMax > rule.delay ? `-${rule.network.delayMax}` : ''}ms`}${rule.network?.chunked ? ' | 分块传输' : ''}</div>`}
+            ${rule.responseMode === 'stream' && rule.stream ? `
+              <div><strong>事件流:</strong> 共 ${rule.stream.events.length} 个事件，播放完毕后${streamEndLabels[rule.stream.onEnd]}</div>
+            ` : ''}
+            ${rule.responseMode === 'sequence' && rule.sequence ? `
+              <div>
+                <strong>响应序列:</strong> 共 ${rule.sequence.steps.length} 步，已命中 ${sequenceState[rule.id] || 0} 次
+                <button class="mock-btn mock-btn-secondary" data-action="reset-sequence" data-id="${rule.id}">重置</button>
+              </div>
+            ` : ''}
+          </div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+
+  container.innerHTML = html;
+
+  // 绑定事件
+  container.querySelector('#mock-add-rule')?.addEventListener('click', () => showRuleEditor());
+  container.querySelector('#mock-import')?.addEventListener('click', importConfig);
+  container.querySelector('#mock-export')?.addEventListener('click', exportConfig);
+  container.querySelector('#mock-import-har')?.addEventListener('click', importHar);
+  container.querySelector('#mock-import-openapi')?.addEventListener('click', importOpenApi);
+  container.querySelector('#mock-test-rules')?.addEventListener('click', () => showRuleTester());
+
+  container.querySelectorAll('[data-action]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.getAttribute('data-action');
+      const id = target.getAttribute('data-id');
+
+      if (!id) return;
+
+      if (action === 'edit') {
+        const rule = config.rules.find(r => r.id === id);
+        if (rule) showRuleEditor(rule);
+      } else if (action === 'toggle') {
+        // 有当前场景时切换规则在场景中的启用状态
+        const rule = config.rules.find(r => r.id === id);
+        const scenario = getActiveScenario();
+        if (rule && scenario) {
+          scenario.ruleIds = isRuleEnabled(rule) ? scenario.ruleIds.filter(ruleId => ruleId !== id) : [...scenario.ruleIds, id];
+        } else if (rule) {
+          rule.enabled = !rule.enabled;
+        }
+        if (rule) {
+          saveConfig();
+          renderRules();
+        }
+      } else if (action === 'reset-sequence') {
+        resetSequence(id);
+        renderRules();
+      } else if (action === 'delete') {
+        if (confirm('确定要删除这条规则吗？')) {
+          config.rules = config.rules.filter(r => r.id !== id);
+          config.scenarios.forEach(scenario => {
+            scenario.ruleIds = scenario.ruleIds.filter(ruleId => ruleId !== id);
+            delete scenario.overrides[id];
+          });
+          saveConfig();
+          renderRules();
+        }
+      }
+    });
+  });
+}
+
+// 渲染面板头部的场景选择框
+function renderScenarioSelect() {
+  const select = document.querySelector('.mock-scenario-select') as HTMLSelectElement | null;
+  if (!select) return;
+
+  select.innerHTML = `
+    <option value="">默认（规则自身开关）</option>
+    ${config.scenarios.map(s => `<option value="${s.id}">${escapeHtml(s.name)}</option>`).join('')}
+  `;
+  select.value = getActiveScenario() ? config.activeScenarioId! : '';
+}
+
+// 渲染场景列表
+function renderScenarios() {
+  const container = document.getElementById('mock-tab-scenarios');
+  if (!container) return;
+
+  const html = `
+    <div class="mock-toolbar">
+      <button class="mock-btn mock-btn-primary" id="mock-add-scenario">+ 添加场景</button>
+    </div>
+    <div>
+      ${config.scenarios.length === 0 ? '<p style="color: #999; text-align: center; padding: 40px 0;">暂无场景，场景可以一键切换一组规则及其响应，例如"空数据"、"VIP 用户"、"全部报错"</p>' : ''}
+      ${config.scenarios.map(scenario => `
+        <div class="mock-rule">
+          <div class="mock-rule-header">
+            <div>
+              <span class="mock-rule-name">${escapeHtml(scenario.name)}</span>
+              ${scenario.id === config.activeScenarioId ? '<span class="mock-status enabled">当前场景</span>' : ''}
+            </div>
+            <div class="mock-rule-actions">
+              <button class="mock-btn mock-btn-secondary" data-action="activate" data-id="${scenario.id}">
+                ${scenario.id === config.activeScenarioId ? '退出场景' : '切换到此场景'}
+              </button>
+              <button class="mock-btn mock-btn-primary" data-action="edit" data-id="${scenario.id}">编辑</button>
+              <button class="mock-btn mock-btn-danger" data-action="delete" data-id="${scenario.id}">删除</button>
+            </div>
+          </div>
+          <div style="font-size: 13px; color: #666;">
+            启用 ${scenario.ruleIds.filter(id => config.rules.some(r => r.id === id)).length} / ${config.rules.length} 条规则，
+            覆盖 ${Object.keys(scenario.overrides).length} 条响应
+          </div>
+        </div>
+      `).join('')}
+    </div>
+  `;
+
+  container.innerHTML = html;
+
+  container.querySelector('#mock-add-scenario')?.addEventListener('click', () => showScenarioEditor());
+
+  container.querySelectorAll('[data-action]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.getAttribute('data-action');
+      const id = target.getAttribute('data-id');
+      const scenario = config.scenarios.find(s => s.id === id);
+      if (!scenario) return;
+
+      if (action === 'activate') {
+        config.activeScenarioId = config.activeScenarioId === scenario.id ? null : scenario.id;
+        saveConfig();
+        renderScenarioSelect();
+        renderScenarios();
+      } else if (action === 'edit') {
+        showScenarioEditor(scenario);
+      } else if (action === 'delete') {
+        if (confirm('确定要删除这个场景吗？')) {
+          config.scenarios = config.scenarios.filter(s => s.id !== id);
+          if (config.activeScenarioId === id) config.activeScenarioId = null;
+          saveConfig();
+          renderScenarioSelect();
+          renderScenarios();
+        }
+      }
+    });
+  });
+}
+
+// 显示场景编辑器
+function showScenarioEditor(scenario?: Scenario) {
+  const isEdit = !!scenario;
+  const data: Scenario = scenario || {
+    id: generateId(),
+    name: '',
+    ruleIds: config.rules.filter(r => r.enabled).map(r => r.id),
+    overrides: {},
+  };
+
+  const container = document.getElementById('mock-tab-scenarios');
+  if (!container) return;
+
+  const html = `
+    <div style="max-width: 700px;">
+      <h4>${isEdit ? '编辑场景' : '添加场景'}</h4>
+      <form id="mock-scenario-form">
+        <div class="mock-form-group">
+          <label class="mock-form-label">场景名称</label>
+          <input type="text" class="mock-form-input" name="name" value="${escapeHtml(data.name)}" placeholder="例如: 空数据" required>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">启用的规则</label>
+          ${config.rules.length === 0 ? '<p style="color: #999; font-size: 13px;">暂无规则</p>' : ''}
+          ${config.rules.map(rule => {
+            const override = data.overrides[rule.id] || {};
+            return `
+              <div class="mock-scenario-rule" data-rule-id="${rule.id}">
+                <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+                  <input type="checkbox" name="ruleEnabled" ${data.ruleIds.includes(rule.id) ? 'checked' : ''}>
+                  <strong>${escapeHtml(rule.name)}</strong>
+                  <span style="color: #999;">${escapeHtml(rule.method)} ${escapeHtml(rule.urlPattern)}</span>
+                </label>
+                <details ${data.overrides[rule.id] ? 'open' : ''}>
+                  <summary style="cursor: pointer; color: #667eea;">覆盖响应（可选）</summary>
+                  <div class="mock-scenario-rule-fields" style="margin-top: 8px;">
+                    <input type="number" class="mock-form-input" name="overrideStatus" value="${override.statusCode ?? ''}" min="200" max="599" placeholder="状态码（${rule.statusCode}）">
+                    <input type="number" class="mock-form-input" name="overrideDelay" value="${override.delay ?? ''}" min="0" placeholder="延迟（${rule.delay}ms）">
+                  </div>
+                  <textarea class="mock-form-textarea" name="overrideData" placeholder="${rule.responseMode === 'stream' ? '事件流文本（如 data: hello），留空沿用规则本身' : rule.responseMode === 'patch' ? '修改内容，留空沿用规则本身' : '响应数据，留空沿用规则本身'}">${escapeHtml(override.responseData || '')}</textarea>
+                </details>
+              </div>
+            `;
+          }).join('')}
+        </div>
+        <div style="display: flex; gap: 8px;">
+          <button type="submit" class="mock-btn mock-btn-primary">保存</button>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-cancel-scenario">取消</button>
+        </div>
+      </form>
+    </div>
+  `;
+
+  container.innerHTML = html;
+
+  const form = document.getElementById('mock-scenario-form') as HTMLFormElement;
+  form?.addEventListener('submit', (e) => {
+    e.preventDefault();
+
+    const ruleIds: string[] = [];
+    const overrides: Record<string, ScenarioOverride> = {};
+    let invalidStatus: string | undefined;
+    form.querySelectorAll<HTMLElement>('.mock-scenario-rule').forEach(item => {
+      const ruleId = item.getAttribute('data-rule-id')!;
+      const field = (name: string) => (item.querySelector(`[name="${name}"]`) as HTMLInputElement).value;
+
+      if ((item.querySelector('[name="ruleEnabled"]') as HTMLInputElement).checked) {
+        ruleIds.push(ruleId);
+      }
+
+      const override: ScenarioOverride = {};
+      if (field('overrideStatus')) override.statusCode = parseInt(field('overrideStatus'));
+      if (override.statusCode !== undefined && !isValidStatusCode(override.statusCode)) invalidStatus = field('overrideStatus');
+      if (field('overrideDelay')) override.delay = parseInt(field('overrideDelay'));
+      if (field('overrideData')) override.responseData = field('overrideData');
+      if (Object.keys(override).length > 0) overrides[ruleId] = override;
+    });
+
+    if (invalidStatus !== undefined) {
+      alert(`状态码 ${invalidStatus} 无效，只支持 200-599`);
+      return;
+    }
+
+    const newScenario: Scenario = {
+      id: data.id,
+      name: (new FormData(form).get('name') as string).trim(),
+      ruleIds,
+      overrides,
+    };
+
+    if (isEdit) {
+      const index = config.scenarios.findIndex(s => s.id === data.id);
+      if (index !== -1) {
+        config.scenarios[index] = newScenario;
+      }
+    } else {
+      config.scenarios.push(newScenario);
     }
 
-    .mock-log-item:last-child {
-      border-bottom: none;
+    saveConfig();
+    renderScenarioSelect();
+    renderScenarios();
+  });
+
+  container.querySelector('#mock-cancel-scenario')?.addEventListener('click', () => {
+    renderScenarios();
+  });
+}
+
+// 渲染规则测试结果
+function renderRuleTestResults(diagnoses: RuleDiagnosis[]): string {
+  if (diagnoses.length === 0) return '<p style="color: #999; text-align: center; padding: 20px 0;">暂无规则</p>';
+
+  const winner = diagnoses.find(d => d.matched && !d.shadowedBy);
+  return `
+    ${!config.enabled ? `
+      <div style="margin-bottom: 12px; padding: 8px 12px; background: #f8d7da; color: #721c24; border-radius: 4px; font-size: 13px;">
+        Mock 已全局关闭，实际请求不会被任何规则拦截
+      </div>
+    ` : ''}
+    <div style="margin-bottom: 12px; font-size: 13px; color: #666;">
+      ${winner ? `将由规则 <strong>${escapeHtml(winner.rule.name)}</strong> 拦截` : '没有规则命中，请求会发送到真实服务器'}
+    </div>
+    ${diagnoses.map(({ rule, matched, reasons, warnings, params, shadowedBy }) => `
+      <div class="mock-rule" style="border-left: 3px solid ${matched ? (shadowedBy ? '#ffc107' : '#28a745') : '#dc3545'};">
+        <div class="mock-rule-header">
+          <div>
+            <span class="mock-rule-name">${escapeHtml(rule.name)}</span>
+            <span class="mock-status ${matched && !shadowedBy ? 'enabled' : 'disabled'}">
+              ${!matched ? '未命中' : shadowedBy ? '被遮蔽' : '命中'}
+            </span>
+          </div>
+          <div class="mock-rule-actions">
+            <button class="mock-btn mock-btn-secondary" data-action="edit" data-id="${rule.id}">编辑</button>
+          </div>
+        </div>
+        <div style="font-size: 13px; color: #666; margin-top: 8px;">
+          <div><strong>方法:</strong> ${escapeHtml(rule.method)} | <strong>URL:</strong> ${rule.urlMatchType ? `[${urlMatchTypeLabels[rule.urlMatchType]}] ` : ''}${escapeHtml(rule.urlPattern)}</div>
+          ${shadowedBy ? `<div style="color: #856404;">本规则也能命中，但排在前面的规则"${escapeHtml(shadowedBy.name)}"已先命中</div>` : ''}
+          ${reasons.map(reason => `<div style="color: #721c24;">✗ ${escapeHtml(reason)}</div>`).join('')}
+          ${warnings.map(warning => `<div style="color: #856404;">⚠ ${escapeHtml(warning)}</div>`).join('')}
+          ${matched && Object.keys(params).length > 0 ? `
+            <div><strong>捕获参数:</strong> ${Object.keys(params).map(name => `${escapeHtml(name)} = ${escapeHtml(params[name] ?? '')}`).join('，')}</div>
+          ` : ''}
+        </div>
+      </div>
+    `).join('')}
+  `;
+}
+
+// 显示规则测试器：输入请求（或从请求日志选择），逐条说明规则是否命中及原因
+function showRuleTester(log?: RequestLog) {
+  const container = document.getElementById('mock-tab-rules');
+  if (!container) return;
+
+  let headers: Record<string, string> = log?.requestHeaders || {};
+  let pageUrl = log?.pageUrl || location.href; // 按发出请求的页面检查生效页面
+  const methods = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+  container.innerHTML = `
+    <div style="max-width: 700px;">
+      <h4>规则测试</h4>
+      <form id="mock-tester-form">
+        ${requestLogs.length > 0 ? `
+          <div class="mock-form-group">
+            <label class="mock-form-label">从请求日志选择</label>
+            <select class="mock-form-select" name="logId">
+              <option value="">手动输入</option>
+              ${requestLogs.map(l => `<option value="${l.id}" ${l.id === log?.id ? 'selected' : ''}>${escapeHtml(l.method)} ${escapeHtml(l.url)}</option>`).join('')}
+            </select>
+          </div>
+        ` : ''}
+        <div class="mock-form-group" style="display: flex; gap: 8px;">
+          <select class="mock-form-select" name="method" style="width: auto;">
+            ${methods.map(method => `<option value="${method}" ${(log?.method.toUpperCase() || 'GET') === method ? 'selected' : ''}>${method}</option>`).join('')}
+          </select>
+          <input type="text" class="mock-form-input" name="url" value="${escapeHtml(log?.url || '')}" placeholder="请求地址，如 /api/user/1?tab=info" required>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">请求体（可选）</label>
+          <textarea class="mock-form-textarea" name="body" style="min-height: 60px;" placeholder="用于检查请求体条件">${escapeHtml(log?.requestBody || '')}</textarea>
+          <div id="mock-tester-headers" style="margin-top: 4px; font-size: 12px; color: #999;"></div>
+          <div id="mock-tester-page" style="margin-top: 4px; font-size: 12px; color: #999; word-break: break-all;"></div>
+        </div>
+        <div style="display: flex; gap: 8px;">
+          <button type="submit" class="mock-btn mock-btn-primary">测试</button>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-cancel-tester">返回</button>
+        </div>
+      </form>
+      <div id="mock-tester-results" style="margin-top: 16px;"></div>
+    </div>
+  `;
+
+  const form = document.getElementById('mock-tester-form') as HTMLFormElement;
+  const results = document.getElementById('mock-tester-results')!;
+  const field = (name: string) => form.querySelector(`[name="${name}"]`) as HTMLInputElement;
+
+  const runTest = () => {
+    const url = field('url').value.trim();
+    const headerNote = document.getElementById('mock-tester-headers');
+    if (headerNote) headerNote.textContent = Object.keys(headers).length > 0 ? `使用所选日志的 ${Object.keys(headers).length} 个请求头` : '';
+    const pageNote = document.getElementById('mock-tester-page');
+    if (pageNote) pageNote.textContent = `按页面 ${pageUrl}${pageUrl === location.href ? '（当前页面）' : ''} 检查生效页面`;
+    if (!url) {
+      results.innerHTML = '';
+      return;
+    }
+    const ctx = createRequestContext(url, field('method').value, headers, field('body').value);
+    results.innerHTML = renderRuleTestResults(diagnoseRules(ctx, pageUrl));
+  };
+
+  form.addEventListener('submit', (e) => {
+    e.preventDefault();
+    runTest();
+  });
+
+  form.querySelector('[name="logId"]')?.addEventListener('change', (e) => {
+    const selected = requestLogs.find(l => l.id === (e.target as HTMLSelectElement).value);
+    headers = selected?.requestHeaders || {};
+    pageUrl = selected?.pageUrl || location.href;
+    if (selected) {
+      field('url').value = selected.url;
+      field('method').value = methods.includes(selected.method.toUpperCase()) ? selected.method.toUpperCase() : 'GET';
+      field('body').value = selected.requestBody || '';
     }
+    runTest();
+  });
 
-    .mock-log-matched {
-      background: #d4edda;
+  results.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.getAttribute('data-action') !== 'edit') return;
+    const rule = config.rules.find(r => r.id === target.getAttribute('data-id'));
+    if (rule) showRuleEditor(rule);
+  });
+
+  container.querySelector('#mock-cancel-tester')?.addEventListener('click', () => {
+    renderRules();
+  });
+
+  runTest();
+}
+
+// 规则编辑器中各 URL 匹配方式的说明
+const urlMatchHints: Record<UrlMatchType | '', string> = {
+  '': `
+    • <strong>字符串匹配</strong>：输入 <code>/api/user</code> 可匹配包含此路径的所有请求<br>
+    • <strong>正则表达式</strong>：输入 <code>/api/user/\\d+</code> 可匹配 /api/user/123 等<br>
+    • <strong>精确匹配</strong>：输入 <code>^https://example\\.com/api/user$</code><br>
+    • <strong>多个路径</strong>：输入 <code>/api/(user|product)</code> 匹配多个路径<br>
+    按调用时传入的原始地址匹配，正则无效时按字符串包含匹配
+  `,
+  exact: '地址与输入完全相同才匹配，如 <code>/api/user</code> 只匹配 /api/user',
+  prefix: '地址以输入开头且在 <code>/</code> 处结束，如 <code>/api/user</code> 匹配 /api/user、/api/user/1，不匹配 /api/user-settings',
+  glob: '<code>*</code> 匹配一段路径，<code>**</code> 匹配任意多段，如 <code>/api/*/detail</code>、<code>/static/**</code>；通配符依次捕获为 <code>{{params.0}}</code>、<code>{{params.1}}</code>…',
+  path: '<code>:name</code> 匹配一段路径并捕获为 <code>{{params.name}}</code>，如 <code>/api/users/:id/orders/:orderId</code>；同样支持 <code>*</code> 和 <code>**</code>',
+  regex: '按正则表达式匹配，如 <code>/api/user/(?&lt;id&gt;\\d+)$</code>，命名分组可通过 <code>{{params.id}}</code> 引用；正则无效时不匹配',
+};
+
+// 渲染 URL 匹配方式、匹配规则和匹配范围选项（HTTP 和 WebSocket 规则共用）
+function renderUrlMatchInputs(data: Pick<MockRule, 'urlPattern' | 'urlMatchType' | 'urlMatchQuery' | 'urlMatchOrigin'>, placeholder: string): string {
+  return `
+    <div style="display: flex; gap: 8px;">
+      <select class="mock-form-select" name="urlMatchType" style="width: auto;">
+        <option value="" ${!data.urlMatchType ? 'selected' : ''}>正则或包含（默认）</option>
+        ${(Object.keys(urlMatchTypeLabels) as UrlMatchType[]).map(type => `
+          <option value="${type}" ${data.urlMatchType === type ? 'selected' : ''}>${urlMatchTypeLabels[type]}</option>
+        `).join('')}
+      </select>
+      <input type="text" class="mock-form-input" name="urlPattern" value="${escapeHtml(data.urlPattern)}" placeholder="${placeholder}" required>
+    </div>
+    <div class="mock-url-match-options" style="display: ${data.urlMatchType ? 'flex' : 'none'}; gap: 16px; margin-top: 8px; font-size: 13px;">
+      <label style="display: flex; align-items: center; gap: 6px; cursor: pointer;">
+        <input type="checkbox" name="urlMatchQuery" ${data.urlMatchQuery ? 'checked' : ''}>
+        <span>包含查询参数</span>
+      </label>
+      <label style="display: flex; align-items: center; gap: 6px; cursor: pointer;">
+        <input type="checkbox" name="urlMatchOrigin" ${data.urlMatchOrigin ? 'checked' : ''}>
+        <span>包含协议和域名</span>
+      </label>
+    </div>
+  `;
+}
+
+// 切换 URL 匹配方式时更新说明和选项，返回匹配方式选择框
+function setupUrlMatchInputs(form: HTMLFormElement): HTMLSelectElement {
+  const select = form.querySelector('[name="urlMatchType"]') as HTMLSelectElement;
+  select.addEventListener('change', () => {
+    const type = select.value as UrlMatchType | '';
+    const hint = form.querySelector('.mock-url-match-hint');
+    const options = form.querySelector('.mock-url-match-options') as HTMLElement | null;
+    if (hint) hint.innerHTML = urlMatchHints[type];
+    if (options) options.style.display = type ? 'flex' : 'none';
+  });
+  return select;
+}
+
+// 读取表单中的 URL 匹配方式；指定为正则表达式时需要是合法的正则，否则提示并返回 null
+function readUrlMatchFields(formData: FormData): Pick<MockRule, 'urlMatchType' | 'urlMatchQuery' | 'urlMatchOrigin'> | null {
+  const urlMatchType = (formData.get('urlMatchType') as UrlMatchType | '') || undefined;
+  if (urlMatchType === 'regex') {
+    try {
+      new RegExp(formData.get('urlPattern') as string);
+    } catch (err) {
+      alert(`URL 匹配规则不是有效的正则表达式：${err instanceof Error ? err.message : err}`);
+      return null;
+    }
+  }
+  return {
+    urlMatchType,
+    urlMatchQuery: urlMatchType ? formData.get('urlMatchQuery') === 'on' : undefined,
+    urlMatchOrigin: urlMatchType ? formData.get('urlMatchOrigin') === 'on' : undefined,
+  };
+}
+
+// 显示规则编辑器
+function showRuleEditor(rule?: MockRule, urlSuggestions?: UrlPatternSuggestion[]) {
+  // 传入尚未保存的规则（如从日志生成）时视为新增
+  const isEdit = !!rule && config.rules.some(r => r.id === rule.id);
+  const data: MockRule = rule || {
+    id: generateId(),
+    enabled: true,
+    name: '',
+    urlPattern: '',
+    pageUrlPattern: location.host,
+    method: 'ALL',
+    responseType: 'json' as const,
+    responseData: '{}',
+    statusCode: 200,
+    delay: 0,
+  };
+
+  const container = document.getElementById('mock-tab-rules');
+  if (!container) return;
+
+  const html = `
+    <div style="max-width: 700px;">
+      <h4>${isEdit ? '编辑规则' : '添加规则'}</h4>
+      <form id="mock-rule-form">
+        <div class="mock-form-group">
+          <label class="mock-form-label">规则名称</label>
+          <input type="text" class="mock-form-input" name="name" value="${escapeHtml(data.name)}" placeholder="例如: 用户信息接口" required>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">URL 匹配规则</label>
+          ${renderUrlMatchInputs(data, '/api/user/info')}
+          ${urlSuggestions && urlSuggestions.length > 0 ? `
+            <div class="mock-pattern-suggestions">
+              <span>建议：</span>
+              ${urlSuggestions.map((suggestion, i) => `
+                <button type="button" class="mock-btn mock-btn-secondary ${suggestion.urlPattern === data.urlPattern && suggestion.urlMatchType === data.urlMatchType && !!suggestion.urlMatchQuery === !!data.urlMatchQuery ? 'mock-pattern-active' : ''}" data-suggestion="${i}" title="[${urlMatchTypeLabels[suggestion.urlMatchType!]}] ${escapeHtml(suggestion.urlPattern)}">${suggestion.label}</button>
+              `).join('')}
+            </div>
+          ` : ''}
+          <div style="margin-top: 8px; padding: 12px; background: #f0f7ff; border-radius: 4px; font-size: 12px; color: #666;">
+            <div style="font-weight: 600; margin-bottom: 6px;">💡 匹配方式说明：</div>
+            <div class="mock-url-match-hint" style="line-height: 1.6;">${urlMatchHints[data.urlMatchType || '']}</div>
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">生效页面</label>
+          <input type="text" class="mock-form-input" name="pageUrlPattern" value="${escapeHtml(data.pageUrlPattern || '')}" placeholder="留空表示所有页面">
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            多个用逗号分隔，支持 <code>*</code> 通配符：<code>example.com</code>、<code>*.example.com</code> 匹配主机名，
+            <code>https://example.com/admin/*</code> 匹配完整页面地址；当前页面主机为 <code>${escapeHtml(location.host)}</code>
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">请求方法</label>
+          <select class="mock-form-select" name="method">
+            <option value="ALL" ${data.method === 'ALL' ? 'selected' : ''}>全部</option>
+            <option value="GET" ${data.method === 'GET' ? 'selected' : ''}>GET</option>
+            <option value="POST" ${data.method === 'POST' ? 'selected' : ''}>POST</option>
+            <option value="PUT" ${data.method === 'PUT' ? 'selected' : ''}>PUT</option>
+            <option value="DELETE" ${data.method === 'DELETE' ? 'selected' : ''}>DELETE</option>
+            <option value="PATCH" ${data.method === 'PATCH' ? 'selected' : ''}>PATCH</option>
+            <option value="HEAD" ${data.method === 'HEAD' ? 'selected' : ''}>HEAD</option>
+            <option value="OPTIONS" ${data.method === 'OPTIONS' ? 'selected' : ''}>OPTIONS</option>
+          </select>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">请求条件（可选）</label>
+          <div id="mock-matchers">
+            ${(data.matchers || []).map(m => renderMatcherRow(m)).join('')}
+          </div>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-add-matcher">+ 添加条件</button>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            所有条件都满足时才会命中规则；请求体字段支持 <code>$.user.id</code> 形式的路径，字段为空时匹配整个请求体
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">响应类型</label>
+          <select class="mock-form-select" name="responseType">
+            <option value="json" ${data.responseType === 'json' ? 'selected' : ''}>JSON</option>
+            <option value="text" ${data.responseType === 'text' ? 'selected' : ''}>Text</option>
+            <option value="xml" ${data.responseType === 'xml' ? 'selected' : ''}>XML</option>
+            <option value="html" ${data.responseType === 'html' ? 'selected' : ''}>HTML</option>
+            <option value="csv" ${data.responseType === 'csv' ? 'selected' : ''}>CSV</option>
+            <option value="form" ${data.responseType === 'form' ? 'selected' : ''}>表单（x-www-form-urlencoded）</option>
+            <option value="ndjson" ${data.responseType === 'ndjson' ? 'selected' : ''}>NDJSON</option>
+            <option value="binary" ${data.responseType === 'binary' ? 'selected' : ''}>二进制文件</option>
+            <option value="function" ${data.responseType === 'function' ? 'selected' : ''}>JS 函数</option>
+          </select>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            Content-Type 按响应类型自动设置（如 XML 为 application/xml，NDJSON 为 application/x-ndjson），可在响应头中覆盖；保存时会校验 XML、CSV、表单和 NDJSON 的格式
+          </div>
+          <div style="margin-top: 8px; padding: 12px; background: #f0f7ff; border-radius: 4px; font-size: 12px; color: #666;">
+            <div style="font-weight: 600; margin-bottom: 6px;">💡 JS 函数：</div>
+            <div style="line-height: 1.6;">
+              响应数据填写一个函数，接收 <code>{ url, method, path, query, headers, body, params, state }</code>，
+              返回（或 resolve）<code>{ status, headers, body, delay }</code>；<code>state</code> 为该规则独享的状态对象，刷新页面后清空<br>
+              例如：<code>({ body, state }) =&gt; ({ body: { id: body.id, count: (state.count = (state.count || 0) + 1) } })</code>
+            </div>
+          </div>
+        </div>
+        <div class="mock-form-group" id="mock-outcome-section" style="display: ${data.responseMode === 'patch' ? 'none' : 'block'};">
+          <label class="mock-form-label">响应结果</label>
+          <select class="mock-form-select" name="outcome">
+            <option value="response" ${!data.outcome || data.outcome === 'response' ? 'selected' : ''}>正常返回响应</option>
+            ${(['networkError', 'timeout', 'reset', 'malformedJson'] as const).map(outcome => `
+              <option value="${outcome}" ${data.outcome === outcome ? 'selected' : ''}>模拟${outcomeLabels[outcome]}</option>
+            `).join('')}
+          </select>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            网络错误：fetch 抛出 TypeError，XHR 触发 error；请求超时：XHR 在 timeout 后触发 timeout，fetch 挂起直到被中止；
+            连接中断：返回部分数据后断开；JSON 格式错误：返回被截断的响应体
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">响应模式</label>
+          <select class="mock-form-select" name="responseMode">
+            <option value="static" ${!data.responseMode || data.responseMode === 'static' ? 'selected' : ''}>固定响应</option>
+            <option value="sequence" ${data.responseMode === 'sequence' ? 'selected' : ''}>响应序列（每次命中返回下一步）</option>
+            <option value="patch" ${data.responseMode === 'patch' ? 'selected' : ''}>修改真实响应（请求照常发出）</option>
+            <option value="stream" ${data.responseMode === 'stream' ? 'selected' : ''}>事件流（SSE）</option>
+          </select>
+        </div>
+        <div class="mock-form-group" id="mock-stream-section" style="display: ${data.responseMode === 'stream' ? 'block' : 'none'};">
+          <label class="mock-form-label">事件流</label>
+          <div id="mock-stream-events" class="mock-stream-events">
+            ${(data.stream?.events || []).map(event => renderStreamEvent(event)).join('')}
+          </div>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-add-event">+ 添加事件</button>
+          <div style="display: flex; gap: 16px; align-items: center; margin-top: 8px; font-size: 13px;">
+            <label>播放完毕后
+              <select name="streamOnEnd">
+                ${(Object.keys(streamEndLabels) as EventStream['onEnd'][]).map(onEnd => `
+                  <option value="${onEnd}" ${(data.stream?.onEnd || 'hold') === onEnd ? 'selected' : ''}>${streamEndLabels[onEnd]}</option>
+                `).join('')}
+              </select>
+            </label>
+          </div>
+          <div style="margin-top: 4px; font-size: 12px; color: #999; line-height: 1.6;">
+            同时作用于 <code>EventSource</code> 和 Fetch（响应体为 <code>text/event-stream</code> 的 ReadableStream），XHR 一次性返回一轮事件；延迟为距上一个事件的时间<br>
+            关闭连接后 EventSource 按 retry 间隔自动重连（带 <code>Last-Event-ID</code>）；连接出错时 Fetch 读取响应体抛出 TypeError，EventSource 触发 error 且不再重连<br>
+            响应数据在此模式下不生效，状态码不是 200 时 EventSource 连接失败
+          </div>
+        </div>
+        <div class="mock-form-group" id="mock-patch-section" style="display: ${data.responseMode === 'patch' ? 'block' : 'none'};">
+          <label class="mock-form-label">修改方式</label>
+          <select class="mock-form-select" name="patchType">
+            <option value="fields" ${!data.patch || data.patch.type === 'fields' ? 'selected' : ''}>按路径覆盖字段</option>
+            <option value="merge" ${data.patch?.type === 'merge' ? 'selected' : ''}>JSON 合并补丁（RFC 7396）</option>
+            <option value="jsonPatch" ${data.patch?.type === 'jsonPatch' ? 'selected' : ''}>JSON Patch 操作（RFC 6902）</option>
+          </select>
+          <div style="margin-top: 8px;">
+            ${renderCodeEditor('patchData', data.patch?.data || '', '{"data.user.vip": true}', 'json')}
+          </div>
+          <label class="mock-form-label" style="margin-top: 8px;">覆盖状态码（可选）</label>
+          <input type="number" class="mock-form-input" name="patchStatusCode" value="${data.patch?.statusCode || ''}" min="200" max="599" placeholder="留空保留真实状态码">
+          <div style="margin-top: 4px; font-size: 12px; color: #999; line-height: 1.6;">
+            按路径覆盖：<code>{"data.user.vip": true, "data.list[0].name": "张三"}</code><br>
+            合并补丁：<code>{"data": {"vip": true, "ads": null}}</code>，值为 null 表示删除字段<br>
+            JSON Patch：<code>[{"op": "replace", "path": "/data/vip", "value": true}]</code><br>
+            下方的响应头会追加到真实响应上；响应数据、状态码和延迟在此模式下不生效
+          </div>
+        </div>
+        <div class="mock-form-group" id="mock-sequence-section" style="display: ${data.responseMode === 'sequence' ? 'block' : 'none'};">
+          <label class="mock-form-label">响应序列</label>
+          <div id="mock-sequence-steps" class="mock-sequence-steps">
+            ${(data.sequence?.steps || []).map(step => renderSequenceStep(step)).join('')}
+          </div>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-add-step">+ 添加步骤</button>
+          <div style="display: flex; gap: 16px; align-items: center; margin-top: 8px; font-size: 13px;">
+            <label>结束后
+              <select name="sequenceOnEnd">
+                <option value="stick" ${data.sequence?.onEnd !== 'loop' ? 'selected' : ''}>停留在最后一步</option>
+                <option value="loop" ${data.sequence?.onEnd === 'loop' ? 'selected' : ''}>从头循环</option>
+              </select>
+            </label>
+            <label style="display: flex; align-items: center; gap: 4px;">
+              <input type="checkbox" name="sequenceResetOnReload" ${data.sequence?.resetOnReload ? 'checked' : ''}>
+              刷新页面后重新开始
+            </label>
+          </div>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            每一步使用自己的响应数据、状态码和延迟，响应类型和响应头与规则共用；步骤为空时使用下方的固定响应
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">响应数据</label>
+          ${renderCodeEditor('responseData', data.responseData, '{"code": 0, "message": "success", "data": {...}}')}
+          <div id="mock-binary-section" style="display: ${data.responseType === 'binary' ? 'flex' : 'none'}; gap: 8px; align-items: center; margin-top: 8px; font-size: 12px; color: #666;">
+            <button type="button" class="mock-btn mock-btn-secondary" id="mock-binary-upload">📁 选择文件</button>
+            <span id="mock-binary-info">${data.responseType === 'binary' ? escapeHtml(describeBinaryData(data.responseData)) : ''}</span>
+          </div>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            JSON 响应会实时校验并标出出错位置，格式错误时无法保存；模板标签按占位值校验，光标旁的括号会高亮其配对括号
+          </div>
+          <div style="margin-top: 8px; padding: 12px; background: #f0f7ff; border-radius: 4px; font-size: 12px; color: #666;">
+            <div style="font-weight: 600; margin-bottom: 6px;">💡 模板语法：</div>
+            <div style="line-height: 1.6;">
+              • <strong>请求信息</strong>：<code>{{url}}</code> <code>{{method}}</code> <code>{{path}}</code> <code>{{segments.2}}</code><br>
+              • <strong>参数</strong>：<code>{{query.id}}</code> <code>{{headers.authorization}}</code> <code>{{body.user.name}}</code> <code>{{params.id}}</code><br>
+              • <strong>辅助函数</strong>：<code>{{uuid}}</code> <code>{{now}}</code> <code>{{now iso}}</code> <code>{{randomInt 1 100}}</code> <code>{{pick a b c}}</code><br>
+              • <strong>重复生成</strong>：<code>[{{#repeat 3}}{"index": {{@index}}}{{/repeat}}]</code>，结果以逗号分隔
+            </div>
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">HTTP 状态码</label>
+          <input type="number" class="mock-form-input" name="statusCode" value="${data.statusCode}" min="200" max="599">
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">响应头（可选）</label>
+          <div id="mock-headers">
+            ${(data.responseHeaders || []).map(h => renderHeaderRow(h)).join('')}
+          </div>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-add-header">+ 添加响应头</button>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            Content-Type 默认随响应类型设置，可在此覆盖；<code>Set-Cookie</code> 会写入 document.cookie（不支持 HttpOnly）
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">延迟（毫秒）</label>
+          <input type="number" class="mock-form-input" name="delay" value="${data.delay}" min="0" placeholder="0">
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            模拟网络延迟，0 表示立即响应
+          </div>
+        </div>
+        <details class="mock-form-group" ${data.network && (data.network.preset !== 'default' || data.network.chunked) ? 'open' : ''}>
+          <summary class="mock-form-label" style="cursor: pointer;">网络模拟（可选）</summary>
+          <div class="mock-form-group">
+            <label class="mock-form-label">网络环境</label>
+            <select class="mock-form-select" name="networkPreset">
+              <option value="default" ${!data.network || data.network.preset === 'default' ? 'selected' : ''}>跟随全局设置</option>
+              <option value="custom" ${data.network?.preset === 'custom' ? 'selected' : ''}>自定义</option>
+              ${(Object.keys(networkPresets) as NetworkPresetName[]).map(name => `
+                <option value="${name}" ${data.network?.preset === name ? 'selected' : ''}>${networkPresets[name].label}</option>
+              `).join('')}
+            </select>
+            <div style="margin-top: 4px; font-size: 12px; color: #999;">
+              选择预设时忽略上方的延迟；以下延迟相关字段仅在"自定义"时生效
+            </div>
+          </div>
+          <div class="mock-sequence-step-fields">
+            <label>最大延迟(ms) <input type="number" class="mock-form-input" name="networkDelayMax" value="${data.network?.delayMax || 0}" min="0"></label>
+            <label>抖动(ms) <input type="number" class="mock-form-input" name="networkJitter" value="${data.network?.jitter || 0}" min="0"></label>
+            <label>分布
+              <select name="networkDistribution">
+                <option value="uniform" ${data.network?.distribution !== 'normal' ? 'selected' : ''}>均匀</option>
+                <option value="normal" ${data.network?.distribution === 'normal' ? 'selected' : ''}>正态</option>
+              </select>
+            </label>
+            <label>带宽(KB/s) <input type="number" class="mock-form-input" name="networkBandwidth" value="${data.network?.bandwidth || 0}" min="0"></label>
+          </div>
+          <label style="display: flex; align-items: center; gap: 8px; cursor: pointer; font-size: 13px; margin-bottom: 8px;">
+            <input type="checkbox" name="networkChunked" ${data.network?.chunked ? 'checked' : ''}>
+            分块传输（Fetch 返回 ReadableStream，XHR 触发 progress 事件）
+          </label>
+          <div class="mock-sequence-step-fields">
+            <label>每块字节数 <input type="number" class="mock-form-input" name="networkChunkSize" value="${data.network?.chunkSize ?? 1024}" min="0"></label>
+            <label>间隔(ms) <input type="number" class="mock-form-input" name="networkChunkInterval" value="${data.network?.chunkInterval ?? 100}" min="0"></label>
+          </div>
+          <div style="font-size: 12px; color: #999;">
+            每块字节数为 0 时按行分块（适用于 NDJSON）；设置了带宽时按带宽计算间隔
+          </div>
+        </details>
+        <div style="display: flex; gap: 8px;">
+          <button type="submit" class="mock-btn mock-btn-primary">保存</button>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-cancel-edit">取消</button>
+        </div>
+      </form>
+    </div>
+  `;
+
+  container.innerHTML = html;
+
+  const form = document.getElementById('mock-rule-form') as HTMLFormElement;
+  const responseTypeSelect = form.querySelector('[name="responseType"]') as HTMLSelectElement;
+  setupCodeEditors(form, editor => editor.dataset.language || responseTypeSelect.value);
+
+  const urlMatchTypeSelect = setupUrlMatchInputs(form);
+
+  // 点击建议的匹配规则填入 URL 匹配规则、匹配方式和是否包含查询参数
+  form.querySelectorAll('[data-suggestion]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      const suggestion = urlSuggestions![parseInt(btn.getAttribute('data-suggestion')!)];
+      (form.querySelector('[name="urlPattern"]') as HTMLInputElement).value = suggestion.urlPattern;
+      (form.querySelector('[name="urlMatchQuery"]') as HTMLInputElement).checked = !!suggestion.urlMatchQuery;
+      urlMatchTypeSelect.value = suggestion.urlMatchType || '';
+      urlMatchTypeSelect.dispatchEvent(new Event('change'));
+      form.querySelectorAll('[data-suggestion]').forEach(other => other.classList.toggle('mock-pattern-active', other === btn));
+    });
+  });
+  form?.addEventListener('submit', (e) => {
+    e.preventDefault();
+    
+    const formData = new FormData(form);
+    const matcherKeys = formData.getAll('matcherKey') as string[];
+    const matcherOperators = formData.getAll('matcherOperator') as RequestMatcher['operator'][];
+    const matcherValues = formData.getAll('matcherValue') as string[];
+    const matchers: RequestMatcher[] = (formData.getAll('matcherSource') as RequestMatcher['source'][])
+      .map((source, i) => ({
+        source,
+        key: matcherKeys[i].trim(),
+        operator: matcherOperators[i],
+        value: matcherValues[i],
+      }))
+      .filter(m => m.key || m.source === 'body');
+
+    const headerValues = formData.getAll('headerValue') as string[];
+    const responseHeaders: ResponseHeader[] = (formData.getAll('headerName') as string[])
+      .map((name, i) => ({ name: name.trim(), value: headerValues[i] }))
+      .filter(h => h.name);
+
+    const stepStatuses = formData.getAll('stepStatus') as string[];
+    const stepDelays = formData.getAll('stepDelay') as string[];
+    const sequence: ResponseSequence = {
+      steps: (formData.getAll('stepData') as string[]).map((responseData, i) => ({
+        responseData,
+        statusCode: parseInt(stepStatuses[i]) || 200,
+        delay: parseInt(stepDelays[i]) || 0,
+      })),
+      onEnd: formData.get('sequenceOnEnd') as ResponseSequence['onEnd'],
+      resetOnReload: formData.get('sequenceResetOnReload') === 'on',
+    };
+
+    // 修改内容需要是合法的 JSON（模板表达式除外）
+    const responseMode = formData.get('responseMode') as string;
+    if (responseMode === 'patch') {
+      try {
+        JSON.parse(formData.get('patchData') as string);
+      } catch (err) {
+        if (!(formData.get('patchData') as string).includes('{{')) {
+          alert(`修改内容不是合法的 JSON：${err instanceof Error ? err.message : err}`);
+          return;
+        }
+      }
+    }
+
+    const urlMatch = readUrlMatchFields(formData);
+    if (!urlMatch) return;
+
+    // 状态码需要在 200-599 之间
+    const statusSources = responseMode === 'patch'
+      ? [formData.get('patchStatusCode') as string].filter(Boolean)
+      : responseMode === 'sequence' && stepStatuses.length > 0 ? stepStatuses : [formData.get('statusCode') as string];
+    const invalidStatus = statusSources.find(status => !isValidStatusCode(parseInt(status)));
+    if (invalidStatus !== undefined) {
+      alert(`状态码 ${invalidStatus} 无效，只支持 200-599`);
+      return;
+    }
+
+    // 只校验当前响应模式用到的响应数据：响应序列为各步骤（没有步骤时为响应数据），事件流和修改真实响应不使用响应数据
+    const responseSources = responseMode === 'sequence' && sequence.steps.length > 0
+      ? sequence.steps.map(step => step.responseData)
+      : ['stream', 'patch'].includes(responseMode) ? [] : [formData.get('responseData') as string];
+
+    // JS 函数响应需要能够编译
+    const responseType = formData.get('responseType') as MockRule['responseType'];
+    if (responseType === 'function') {
+      for (const source of responseSources) {
+        try {
+          compileHandler(source);
+        } catch (err) {
+          alert(`JS 函数有误：${err instanceof Error ? err.message : err}`);
+          return;
+        }
+      }
     }
 
-    .mock-toolbar {
-      display: flex;
-      gap: 8px;
-      margin-bottom: 16px;
+    // XML、CSV 等文本格式需要通过格式校验
+    for (const source of responseSources) {
+      const error = validateResponseData(responseType, source);
+      if (error) {
+        alert(error);
+        return;
+      }
     }
 
-    .mock-form-group code {
-      background: #e8f0fe;
-      padding: 2px 6px;
-      border-radius: 3px;
-      font-family: 'Monaco', 'Menlo', 'Consolas', monospace;
-      font-size: 11px;
-      color: #1a73e8;
+    // 二进制响应需要是合法的 data URL 或 base64
+    if (responseType === 'binary') {
+      for (const source of responseSources) {
+        try {
+          parseBinaryData(source);
+        } catch (err) {
+          alert(`二进制数据有误：${err instanceof Error ? err.message : err}`);
+          return;
+        }
+      }
     }
-  `);
 
-  // 创建面板 HTML
-  const panel = document.createElement('div');
-  panel.className = 'mock-panel';
-  panel.innerHTML = `
-    <div class="mock-panel-header">
-      <h3 class="mock-panel-title">🎭 Mock 数据管理</h3>
-      <button class="mock-panel-close">×</button>
-    </div>
-    <div class="mock-panel-tabs">
-      <button class="mock-panel-tab active" data-tab="rules">Mock 规则</button>
-      <button class="mock-panel-tab" data-tab="logs">请求日志</button>
-      <button class="mock-panel-tab" data-tab="settings">设置</button>
-    </div>
-    <div class="mock-panel-content">
-      <div id="mock-tab-rules"></div>
-      <div id="mock-tab-logs" style="display: none;"></div>
-      <div id="mock-tab-settings" style="display: none;"></div>
-    </div>
-  `;
+    const eventDelays = formData.getAll('eventDelay') as string[];
+    const eventNames = formData.getAll('eventName') as string[];
+    const eventIds = formData.getAll('eventId') as string[];
+    const eventRetries = formData.getAll('eventRetry') as string[];
+    const stream: EventStream = {
+      events: (formData.getAll('eventData') as string[]).map((eventData, i) => ({
+        delay: parseInt(eventDelays[i]) || 0,
+        id: eventIds[i].trim(),
+        event: eventNames[i].trim(),
+        data: eventData,
+        retry: eventRetries[i] ? parseInt(eventRetries[i]) : undefined,
+      })),
+      onEnd: formData.get('streamOnEnd') as EventStream['onEnd'],
+    };
 
-  // 创建切换按钮
-  const toggleBtn = document.createElement('button');
-  toggleBtn.className = 'mock-toggle-btn';
-  toggleBtn.textContent = '🎭';
-  toggleBtn.title = 'Mock 数据管理';
+    const newRule: MockRule = {
+      id: data.id,
+      enabled: data.enabled,
+      name: formData.get('name') as string,
+      urlPattern: formData.get('urlPattern') as string,
+      ...urlMatch,
+      pageUrlPattern: (formData.get('pageUrlPattern') as string).trim(),
+      method: formData.get('method') as string,
+      responseType,
+      responseData: formData.get('responseData') as string,
+      statusCode: parseInt(formData.get('statusCode') as string),
+      delay: parseInt(formData.get('delay') as string),
+      network: {
+        preset: formData.get('networkPreset') as NetworkSettings['preset'],
+        delayMax: parseInt(formData.get('networkDelayMax') as string) || 0,
+        distribution: formData.get('networkDistribution') as NetworkSettings['distribution'],
+        jitter: parseInt(formData.get('networkJitter') as string) || 0,
+        bandwidth: parseInt(formData.get('networkBandwidth') as string) || 0,
+        chunked: formData.get('networkChunked') === 'on',
+        chunkSize: parseInt(formData.get('networkChunkSize') as string) || 0,
+        chunkInterval: parseInt(formData.get('networkChunkInterval') as string) || 0,
+      },
+      matchers,
+      responseHeaders,
+      // 修改真实响应模式总是发出真实请求，不使用响应结果
+      outcome: formData.get('responseMode') === 'patch' ? 'response' : formData.get('outcome') as MockRule['outcome'],
+      responseMode: formData.get('responseMode') as MockRule['responseMode'],
+      sequence,
+      stream,
+      patch: {
+        type: formData.get('patchType') as ResponsePatch['type'],
+        data: formData.get('patchData') as string,
+        statusCode: parseInt(formData.get('patchStatusCode') as string) || undefined,
+      },
+    };
 
-  // 等待 body 加载
-  const addToPage = () => {
-    if (document.body) {
-      document.body.appendChild(panel);
-      document.body.appendChild(toggleBtn);
-      initPanelEvents(panel, toggleBtn);
+    if (isEdit) {
+      const index = config.rules.findIndex(r => r.id === data.id);
+      if (index !== -1) {
+        config.rules[index] = newRule;
+      }
+      resetSequence(newRule.id);
     } else {
-      setTimeout(addToPage, 100);
+      addRules([newRule]);
     }
-  };
 
-  addToPage();
-}
+    saveConfig();
+    renderRules();
+  });
 
-// 初始化面板事件
-function initPanelEvents(panel: HTMLElement, toggleBtn: HTMLElement) {
-  // 切换按钮点击
-  toggleBtn.addEventListener('click', () => {
-    panel.classList.toggle('show');
-    if (panel.classList.contains('show')) {
-      renderRules();
+  const matchersContainer = container.querySelector('#mock-matchers');
+  container.querySelector('#mock-add-matcher')?.addEventListener('click', () => {
+    matchersContainer?.insertAdjacentHTML('beforeend', renderMatcherRow());
+  });
+  matchersContainer?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.getAttribute('data-action') === 'remove-matcher') {
+      target.closest('.mock-matcher-row')?.remove();
     }
   });
 
-  // 关闭按钮
-  const closeBtn = panel.querySelector('.mock-panel-close');
-  closeBtn?.addEventListener('click', () => {
-    panel.classList.remove('show');
+  // 二进制响应：选择文件后以 data URL 写入响应数据
+  const binarySection = container.querySelector('#mock-binary-section') as HTMLElement | null;
+  const binaryInfo = container.querySelector('#mock-binary-info');
+  const responseDataInput = form?.querySelector('[name="responseData"]') as HTMLTextAreaElement | null;
+  const updateBinaryInfo = () => {
+    if (binaryInfo && responseDataInput) binaryInfo.textContent = describeBinaryData(responseDataInput.value);
+  };
+  form?.querySelector('[name="responseType"]')?.addEventListener('change', (e) => {
+    form.querySelectorAll<HTMLElement>('.mock-code-editor:not([data-language])').forEach(editor => {
+      updateCodeEditor(editor, responseTypeSelect.value);
+    });
+    const isBinary = (e.target as HTMLSelectElement).value === 'binary';
+    if (binarySection) {
+      binarySection.style.display = isBinary ? 'flex' : 'none';
+    }
+    if (isBinary) updateBinaryInfo();
+  });
+  responseDataInput?.addEventListener('input', () => {
+    if (binarySection?.style.display !== 'none') updateBinaryInfo();
+  });
+  container.querySelector('#mock-binary-upload')?.addEventListener('click', () => {
+    pickDataUrlFile('*/*', dataUrl => {
+      if (!responseDataInput) return;
+      responseDataInput.value = dataUrl;
+      updateBinaryInfo();
+    });
   });
 
-  // Tab 切换
-  const tabs = panel.querySelectorAll('.mock-panel-tab');
-  tabs.forEach(tab => {
-    tab.addEventListener('click', () => {
-      const targetTab = tab.getAttribute('data-tab');
-      
-      // 更新 Tab 状态
-      tabs.forEach(t => t.classList.remove('active'));
-      tab.classList.add('active');
-
-      // 显示对应内容
-      const contents = ['rules', 'logs', 'settings'];
-      contents.forEach(name => {
-        const content = document.getElementById(`mock-tab-${name}`);
-        if (content) {
-          content.style.display = name === targetTab ? 'block' : 'none';
-        }
-      });
+  const sequenceSection = container.querySelector('#mock-sequence-section') as HTMLElement | null;
+  const patchSection = container.querySelector('#mock-patch-section') as HTMLElement | null;
+  const streamSection = container.querySelector('#mock-stream-section') as HTMLElement | null;
+  const outcomeSection = container.querySelector('#mock-outcome-section') as HTMLElement | null;
+  const stepsContainer = container.querySelector('#mock-sequence-steps');
+  form?.querySelector('[name="responseMode"]')?.addEventListener('change', (e) => {
+    const mode = (e.target as HTMLSelectElement).value;
+    if (sequenceSection) {
+      sequenceSection.style.display = mode === 'sequence' ? 'block' : 'none';
+    }
+    if (patchSection) {
+      patchSection.style.display = mode === 'patch' ? 'block' : 'none';
+    }
+    if (streamSection) {
+      streamSection.style.display = mode === 'stream' ? 'block' : 'none';
+    }
+    if (outcomeSection) {
+      outcomeSection.style.display = mode === 'patch' ? 'none' : 'block';
+    }
+  });
+  container.querySelector('#mock-add-step')?.addEventListener('click', () => {
+    stepsContainer?.insertAdjacentHTML('beforeend', renderSequenceStep());
+    const editor = stepsContainer?.lastElementChild?.querySelector('.mock-code-editor') as HTMLElement | null;
+    if (editor) updateCodeEditor(editor, responseTypeSelect.value);
+  });
+  stepsContainer?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.getAttribute('data-action') === 'remove-step') {
+      target.closest('.mock-sequence-step')?.remove();
+    }
+  });
 
-      // 渲染内容
-      if (targetTab === 'rules') renderRules();
-      if (targetTab === 'logs') renderLogs();
-      if (targetTab === 'settings') renderSettings();
-    });
+  const eventsContainer = container.querySelector('#mock-stream-events');
+  container.querySelector('#mock-add-event')?.addEventListener('click', () => {
+    eventsContainer?.insertAdjacentHTML('beforeend', renderStreamEvent());
+  });
+  eventsContainer?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.getAttribute('data-action') === 'remove-event') {
+      target.closest('.mock-stream-event')?.remove();
+    }
   });
 
-  // 更新按钮状态
-  function updateToggleBtnState() {
-    if (config.enabled) {
-      toggleBtn.classList.remove('disabled');
-      toggleBtn.title = 'Mock 已启用 - 点击管理';
-    } else {
-      toggleBtn.classList.add('disabled');
-      toggleBtn.title = 'Mock 已禁用 - 点击管理';
+  const headersContainer = container.querySelector('#mock-headers');
+  container.querySelector('#mock-add-header')?.addEventListener('click', () => {
+    headersContainer?.insertAdjacentHTML('beforeend', renderHeaderRow());
+  });
+  headersContainer?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (target.getAttribute('data-action') === 'remove-header') {
+      target.closest('.mock-header-row')?.remove();
     }
-  }
+  });
 
-  updateToggleBtnState();
+  container.querySelector('#mock-cancel-edit')?.addEventListener('click', () => {
+    renderRules();
+  });
 }
 
-// 渲染规则列表
-function renderRules() {
-  const container = document.getElementById('mock-tab-rules');
+// WebSocket 连接状态
+const wsStatusLabels: Record<WebSocketLog['status'], string> = {
+  connecting: '连接中',
+  open: '已连接',
+  closed: '已关闭',
+  failed: '连接失败',
+};
+
+// 渲染 WebSocket 规则和连接日志
+function renderWebSockets() {
+  const container = document.getElementById('mock-tab-websocket');
   if (!container) return;
 
   const html = `
     <div class="mock-toolbar">
-      <button class="mock-btn mock-btn-primary" id="mock-add-rule">+ 添加规则</button>
-      <button class="mock-btn mock-btn-secondary" id="mock-import">导入配置</button>
-      <button class="mock-btn mock-btn-secondary" id="mock-export">导出配置</button>
+      <button class="mock-btn mock-btn-primary" id="mock-add-ws-rule">+ 添加 WebSocket 规则</button>
+      <span style="margin-left: auto; color: #666; font-size: 13px; align-self: center;">
+        本页生效 ${config.wsRules.filter(r => r.enabled && isRuleActiveOnPage(r)).length} / ${config.wsRules.length} 条
+      </span>
     </div>
-    <div id="mock-rules-list">
-      ${config.rules.length === 0 ? '<p style="color: #999; text-align: center; padding: 40px 0;">暂无规则，点击上方按钮添加</p>' : ''}
-      ${config.rules.map(rule => `
+    <div>
+      ${config.wsRules.length === 0 ? '<p style="color: #999; text-align: center; padding: 40px 0;">暂无 WebSocket 规则，匹配的连接不会连接服务器，由规则推送和回复消息</p>' : ''}
+      ${config.wsRules.map(rule => `
         <div class="mock-rule">
           <div class="mock-rule-header">
             <div>
-              <span class="mock-rule-name">${rule.name}</span>
+              <span class="mock-rule-name">${escapeHtml(rule.name)}</span>
               <span class="mock-status ${rule.enabled ? 'enabled' : 'disabled'}">
                 ${rule.enabled ? '已启用' : '已禁用'}
               </span>
+              ${isRuleActiveOnPage(rule) ? '' : '<span class="mock-status disabled">非本页</span>'}
             </div>
             <div class="mock-rule-actions">
               <button class="mock-btn mock-btn-primary" data-action="edit" data-id="${rule.id}">编辑</button>
@@ -700,128 +5827,194 @@ function renderRules() {
             </div>
           </div>
           <div style="font-size: 13px; color: #666; margin-top: 8px;">
-            <div><strong>方法:</strong> ${rule.method}</div>
-            <div><strong>URL:</strong> ${rule.urlPattern}</div>
-            <div><strong>状态码:</strong> ${rule.statusCode} | <strong>延迟:</strong> ${rule.delay}ms</div>
+            <div><strong>URL:</strong> ${rule.urlMatchType ? `[${urlMatchTypeLabels[rule.urlMatchType]}] ` : ''}${escapeHtml(rule.urlPattern)}</div>
+            ${rule.pageUrlPattern ? `<div><strong>生效页面:</strong> ${escapeHtml(rule.pageUrlPattern)}</div>` : ''}
+            <div>
+              <strong>连接:</strong> ${rule.connect === 'reject' ? '始终失败' : `${rule.rejectFirst > 0 ? `前 ${rule.rejectFirst} 次失败，之后` : ''}${rule.openDelay}ms 后建立`}
+              | <strong>推送:</strong> ${rule.onOpen.length} 条
+              | <strong>定时:</strong> ${rule.timers.length} 个
+              | <strong>回复:</strong> ${rule.replies.length} 条
+              ${rule.close.after > 0 ? `| <strong>关闭:</strong> ${rule.close.after}ms 后以 ${rule.close.code} 关闭` : ''}
+            </div>
           </div>
         </div>
       `).join('')}
     </div>
+    <div class="mock-toolbar" style="margin-top: 24px; align-items: center;">
+      <h4 style="margin: 0;">连接日志</h4>
+      <button class="mock-btn mock-btn-secondary" id="mock-refresh-ws-logs">刷新</button>
+      <button class="mock-btn mock-btn-danger" id="mock-clear-ws-logs">清空</button>
+      <span style="margin-left: auto; color: #666; font-size: 13px;">共 ${wsLogs.length} 个连接</span>
+    </div>
+    <div>
+      ${wsLogs.length === 0 ? '<p style="color: #999; text-align: center; padding: 20px 0;">暂无 WebSocket 连接</p>' : ''}
+      ${wsLogs.map(log => {
+        const rule = log.ruleId ? config.wsRules.find(r => r.id === log.ruleId) : null;
+        return `
+          <details class="mock-log-item ${log.matched ? 'mock-log-matched' : ''}">
+            <summary style="cursor: pointer;">
+              <strong>${wsStatusLabels[log.status]}${log.closeCode ? ` (${log.closeCode}${log.closeReason ? ` ${escapeHtml(log.closeReason)}` : ''})` : ''}</strong>
+              ${escapeHtml(log.url)}
+              <span style="float: right; color: #999;">${log.messages.length} 条消息 · ${new Date(log.timestamp).toLocaleTimeString()}</span>
+            </summary>
+            ${log.matched && rule ? `<div style="color: #155724; font-size: 12px;">✓ 已拦截 - ${escapeHtml(rule.name)}</div>` : ''}
+            ${log.messages.map(message => `
+              <div class="mock-ws-log-message">
+                <span style="color: ${message.direction === 'sent' ? '#1a73e8' : '#28a745'};">${message.direction === 'sent' ? '↑' : '↓'}</span>
+                <span style="color: #999;">${new Date(message.timestamp).toLocaleTimeString()}</span>
+                <code>${escapeHtml(message.data)}</code>
+              </div>
+            `).join('')}
+          </details>
+        `;
+      }).join('')}
+    </div>
   `;
 
   container.innerHTML = html;
 
-  // 绑定事件
-  container.querySelector('#mock-add-rule')?.addEventListener('click', () => showRuleEditor());
-  container.querySelector('#mock-import')?.addEventListener('click', importConfig);
-  container.querySelector('#mock-export')?.addEventListener('click', exportConfig);
+  container.querySelector('#mock-add-ws-rule')?.addEventListener('click', () => showWebSocketRuleEditor());
+  container.querySelector('#mock-refresh-ws-logs')?.addEventListener('click', renderWebSockets);
+  container.querySelector('#mock-clear-ws-logs')?.addEventListener('click', () => {
+    wsLogs = [];
+    renderWebSockets();
+  });
 
   container.querySelectorAll('[data-action]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement;
       const action = target.getAttribute('data-action');
-      const id = target.getAttribute('data-id');
-
-      if (!id) return;
+      const rule = config.wsRules.find(r => r.id === target.getAttribute('data-id'));
+      if (!rule) return;
 
       if (action === 'edit') {
-        const rule = config.rules.find(r => r.id === id);
-        if (rule) showRuleEditor(rule);
+        showWebSocketRuleEditor(rule);
       } else if (action === 'toggle') {
-        const rule = config.rules.find(r => r.id === id);
-        if (rule) {
-          rule.enabled = !rule.enabled;
-          saveConfig();
-          renderRules();
-        }
+        rule.enabled = !rule.enabled;
+        saveConfig();
+        renderWebSockets();
       } else if (action === 'delete') {
-        if (confirm('确定要删除这条规则吗？')) {
-          config.rules = config.rules.filter(r => r.id !== id);
+        if (confirm('确定要删除这条 WebSocket 规则吗？')) {
+          config.wsRules = config.wsRules.filter(r => r.id !== rule.id);
           saveConfig();
-          renderRules();
+          renderWebSockets();
         }
       }
     });
   });
 }
 
-// 显示规则编辑器
-function showRuleEditor(rule?: MockRule) {
+// 渲染 WebSocket 消息行（连接后推送 / 定时推送 / 回复）
+function renderWebSocketMessageRow(kind: 'open' | 'timer' | 'reply', item?: Partial<WebSocketScriptedMessage & WebSocketTimer & WebSocketReply>): string {
+  const m = item || {};
+  const time = kind === 'timer' ? m.interval ?? 1000 : m.delay ?? 0;
+  return `
+    <div class="mock-ws-message">
+      <div class="mock-sequence-step-fields">
+        ${kind === 'reply' ? `<input type="text" class="mock-form-input mock-ws-pattern" name="wsPattern" value="${escapeHtml(m.pattern || '')}" placeholder="匹配收到的消息，留空匹配所有">` : ''}
+        <label>${kind === 'timer' ? '间隔(ms)' : '延迟(ms)'} <input type="number" class="mock-form-input" name="wsTime" value="${time}" min="${kind === 'timer' ? 1 : 0}"></label>
+        <button type="button" class="mock-btn mock-btn-danger" data-action="remove-ws-message">删除</button>
+      </div>
+      <textarea class="mock-form-textarea" name="wsData" placeholder="消息内容，支持模板语法">${escapeHtml(m.data || '')}</textarea>
+    </div>
+  `;
+}
+
+// 显示 WebSocket 规则编辑器
+function showWebSocketRuleEditor(rule?: WebSocketRule) {
   const isEdit = !!rule;
-  const data = rule || {
+  const data: WebSocketRule = rule || {
     id: generateId(),
     enabled: true,
     name: '',
     urlPattern: '',
-    method: 'ALL',
-    responseType: 'json' as const,
-    responseData: '{}',
-    statusCode: 200,
-    delay: 0,
+    pageUrlPattern: location.host,
+    connect: 'accept',
+    rejectFirst: 0,
+    openDelay: 50,
+    protocol: '',
+    onOpen: [],
+    timers: [],
+    replies: [],
+    close: { after: 0, code: 1000, reason: '' },
   };
 
-  const container = document.getElementById('mock-tab-rules');
+  const container = document.getElementById('mock-tab-websocket');
   if (!container) return;
 
   const html = `
     <div style="max-width: 700px;">
-      <h4>${isEdit ? '编辑规则' : '添加规则'}</h4>
-      <form id="mock-rule-form">
+      <h4>${isEdit ? '编辑 WebSocket 规则' : '添加 WebSocket 规则'}</h4>
+      <form id="mock-ws-form">
         <div class="mock-form-group">
           <label class="mock-form-label">规则名称</label>
-          <input type="text" class="mock-form-input" name="name" value="${data.name}" placeholder="例如: 用户信息接口" required>
+          <input type="text" class="mock-form-input" name="name" value="${escapeHtml(data.name)}" placeholder="例如: 实时行情" required>
         </div>
         <div class="mock-form-group">
           <label class="mock-form-label">URL 匹配规则</label>
-          <input type="text" class="mock-form-input" name="urlPattern" value="${data.urlPattern}" placeholder="/api/user/info" required>
+          ${renderUrlMatchInputs(data, '/ws/quotes')}
           <div style="margin-top: 8px; padding: 12px; background: #f0f7ff; border-radius: 4px; font-size: 12px; color: #666;">
-            <div style="font-weight: 600; margin-bottom: 6px;">💡 匹配方式说明：</div>
-            <div style="line-height: 1.6;">
-              • <strong>字符串匹配</strong>：输入 <code>/api/user</code> 可匹配包含此路径的所有请求<br>
-              • <strong>正则表达式</strong>：输入 <code>/api/user/\\d+</code> 可匹配 /api/user/123 等<br>
-              • <strong>精确匹配</strong>：输入 <code>^https://example\\.com/api/user$</code><br>
-              • <strong>多个路径</strong>：输入 <code>/api/(user|product)</code> 匹配多个路径
-            </div>
+            <div style="margin-bottom: 6px;">与 HTTP 规则相同；默认方式匹配 <code>wss://</code> 开头的完整地址，捕获的参数可在消息中通过 <code>{{params.name}}</code> 引用</div>
+            <div class="mock-url-match-hint" style="line-height: 1.6;">${urlMatchHints[data.urlMatchType || '']}</div>
           </div>
         </div>
         <div class="mock-form-group">
-          <label class="mock-form-label">请求方法</label>
-          <select class="mock-form-select" name="method">
-            <option value="ALL" ${data.method === 'ALL' ? 'selected' : ''}>全部</option>
-            <option value="GET" ${data.method === 'GET' ? 'selected' : ''}>GET</option>
-            <option value="POST" ${data.method === 'POST' ? 'selected' : ''}>POST</option>
-            <option value="PUT" ${data.method === 'PUT' ? 'selected' : ''}>PUT</option>
-            <option value="DELETE" ${data.method === 'DELETE' ? 'selected' : ''}>DELETE</option>
-          </select>
+          <label class="mock-form-label">生效页面</label>
+          <input type="text" class="mock-form-input" name="pageUrlPattern" value="${escapeHtml(data.pageUrlPattern || '')}" placeholder="留空表示所有页面">
         </div>
         <div class="mock-form-group">
-          <label class="mock-form-label">响应类型</label>
-          <select class="mock-form-select" name="responseType">
-            <option value="json" ${data.responseType === 'json' ? 'selected' : ''}>JSON</option>
-            <option value="text" ${data.responseType === 'text' ? 'selected' : ''}>Text</option>
-          </select>
+          <label class="mock-form-label">连接</label>
+          <div class="mock-sequence-step-fields">
+            <select class="mock-form-select" name="connect" style="width: auto;">
+              <option value="accept" ${data.connect === 'accept' ? 'selected' : ''}>建立连接</option>
+              <option value="reject" ${data.connect === 'reject' ? 'selected' : ''}>始终失败</option>
+            </select>
+            <label>耗时(ms) <input type="number" class="mock-form-input" name="openDelay" value="${data.openDelay}" min="0"></label>
+            <label>前 N 次失败 <input type="number" class="mock-form-input" name="rejectFirst" value="${data.rejectFirst}" min="0"></label>
+            <label>子协议 <input type="text" class="mock-form-input" name="protocol" value="${escapeHtml(data.protocol)}" placeholder="可选"></label>
+          </div>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            连接失败时依次触发 <code>error</code> 和 <code>close</code>（code 1006）；"前 N 次失败"按本页的连接次数计算，保存规则后重新计数
+          </div>
         </div>
         <div class="mock-form-group">
-          <label class="mock-form-label">响应数据</label>
-          <textarea class="mock-form-textarea" name="responseData" placeholder='{"code": 0, "message": "success", "data": {...}}'>${data.responseData}</textarea>
-          <div style="margin-top: 4px; font-size: 12px; color: #999;">
-            提示：请确保 JSON 格式正确，否则会导致解析失败
+          <label class="mock-form-label">连接后推送</label>
+          <div id="mock-ws-open">
+            ${data.onOpen.map(m => renderWebSocketMessageRow('open', m)).join('')}
           </div>
+          <button type="button" class="mock-btn mock-btn-secondary" data-add="open">+ 添加消息</button>
         </div>
         <div class="mock-form-group">
-          <label class="mock-form-label">HTTP 状态码</label>
-          <input type="number" class="mock-form-input" name="statusCode" value="${data.statusCode}" min="100" max="599">
+          <label class="mock-form-label">定时推送</label>
+          <div id="mock-ws-timer">
+            ${data.timers.map(m => renderWebSocketMessageRow('timer', m)).join('')}
+          </div>
+          <button type="button" class="mock-btn mock-btn-secondary" data-add="timer">+ 添加定时消息</button>
         </div>
         <div class="mock-form-group">
-          <label class="mock-form-label">延迟（毫秒）</label>
-          <input type="number" class="mock-form-input" name="delay" value="${data.delay}" min="0" placeholder="0">
+          <label class="mock-form-label">回复消息</label>
+          <div id="mock-ws-reply">
+            ${data.replies.map(m => renderWebSocketMessageRow('reply', m)).join('')}
+          </div>
+          <button type="button" class="mock-btn mock-btn-secondary" data-add="reply">+ 添加回复</button>
           <div style="margin-top: 4px; font-size: 12px; color: #999;">
-            模拟网络延迟，0 表示立即响应
+            页面发送的消息按正则（无效时按包含）匹配，所有匹配的回复都会发送；回复中可用 <code>{{body.id}}</code> 引用收到的 JSON 消息
+          </div>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">服务端关闭</label>
+          <div class="mock-sequence-step-fields">
+            <label>连接后(ms) <input type="number" class="mock-form-input" name="closeAfter" value="${data.close.after}" min="0"></label>
+            <label>关闭码 <input type="number" class="mock-form-input" name="closeCode" value="${data.close.code}" min="1000" max="4999"></label>
+            <label>原因 <input type="text" class="mock-form-input" name="closeReason" value="${escapeHtml(data.close.reason)}"></label>
+          </div>
+          <div style="margin-top: 4px; font-size: 12px; color: #999;">
+            0 表示不主动关闭；关闭码 1006 模拟异常断开（<code>wasClean</code> 为 false），配合"前 N 次失败"可以模拟断线重连风暴
           </div>
         </div>
         <div style="display: flex; gap: 8px;">
           <button type="submit" class="mock-btn mock-btn-primary">保存</button>
-          <button type="button" class="mock-btn mock-btn-secondary" id="mock-cancel-edit">取消</button>
+          <button type="button" class="mock-btn mock-btn-secondary" id="mock-cancel-ws">取消</button>
         </div>
       </form>
     </div>
@@ -829,77 +6022,406 @@ function showRuleEditor(rule?: MockRule) {
 
   container.innerHTML = html;
 
-  const form = document.getElementById('mock-rule-form') as HTMLFormElement;
+  const form = document.getElementById('mock-ws-form') as HTMLFormElement;
+  setupUrlMatchInputs(form);
+
+  // 读取某一类消息行
+  const readMessages = (kind: string) => Array.from(form.querySelectorAll<HTMLElement>(`#mock-ws-${kind} .mock-ws-message`)).map(row => ({
+    pattern: (row.querySelector('[name="wsPattern"]') as HTMLInputElement | null)?.value || '',
+    time: parseInt((row.querySelector('[name="wsTime"]') as HTMLInputElement).value) || 0,
+    data: (row.querySelector('[name="wsData"]') as HTMLTextAreaElement).value,
+  }));
+
   form?.addEventListener('submit', (e) => {
     e.preventDefault();
-    
+
     const formData = new FormData(form);
-    const newRule: MockRule = {
+    const urlMatch = readUrlMatchFields(formData);
+    if (!urlMatch) return;
+
+    const newRule: WebSocketRule = {
       id: data.id,
       enabled: data.enabled,
       name: formData.get('name') as string,
       urlPattern: formData.get('urlPattern') as string,
-      method: formData.get('method') as string,
-      responseType: formData.get('responseType') as 'json' | 'text',
-      responseData: formData.get('responseData') as string,
-      statusCode: parseInt(formData.get('statusCode') as string),
-      delay: parseInt(formData.get('delay') as string),
+      ...urlMatch,
+      pageUrlPattern: (formData.get('pageUrlPattern') as string).trim(),
+      connect: formData.get('connect') as WebSocketRule['connect'],
+      rejectFirst: parseInt(formData.get('rejectFirst') as string) || 0,
+      openDelay: parseInt(formData.get('openDelay') as string) || 0,
+      protocol: (formData.get('protocol') as string).trim(),
+      onOpen: readMessages('open').map(m => ({ data: m.data, delay: m.time })),
+      timers: readMessages('timer').map(m => ({ data: m.data, interval: m.time })),
+      replies: readMessages('reply').map(m => ({ pattern: m.pattern, data: m.data, delay: m.time })),
+      close: {
+        after: parseInt(formData.get('closeAfter') as string) || 0,
+        code: parseInt(formData.get('closeCode') as string) || 1000,
+        reason: formData.get('closeReason') as string,
+      },
     };
 
     if (isEdit) {
-      const index = config.rules.findIndex(r => r.id === data.id);
+      const index = config.wsRules.findIndex(r => r.id === data.id);
       if (index !== -1) {
-        config.rules[index] = newRule;
+        config.wsRules[index] = newRule;
       }
     } else {
-      config.rules.push(newRule);
+      config.wsRules.push(newRule);
+    }
+    delete wsConnectionCounts[newRule.id];
+
+    saveConfig();
+    renderWebSockets();
+  });
+
+  form?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    const kind = target.getAttribute('data-add') as 'open' | 'timer' | 'reply' | null;
+    if (kind) {
+      form.querySelector(`#mock-ws-${kind}`)?.insertAdjacentHTML('beforeend', renderWebSocketMessageRow(kind));
+    }
+    if (target.getAttribute('data-action') === 'remove-ws-message') {
+      target.closest('.mock-ws-message')?.remove();
     }
+  });
+
+  container.querySelector('#mock-cancel-ws')?.addEventListener('click', () => {
+    renderWebSockets();
+  });
+}
+
+// 判断请求日志是否符合筛选条件
+function matchesLogFilter(log: RequestLog): boolean {
+  const { search, method, status, matched, ruleId } = logFilter;
+  if (method && log.method.toUpperCase() !== method) return false;
+  if (matched && (matched === 'matched') !== log.matched) return false;
+  if (ruleId && log.ruleId !== ruleId) return false;
+  if (status === 'failed') {
+    if (!log.error) return false;
+  } else if (status && String(Math.floor((log.response?.status || 0) / 100)) + 'xx' !== status) {
+    return false;
+  }
+  if (search) {
+    const keyword = search.toLowerCase();
+    const fields = [log.url, log.pageUrl || '', log.method, log.requestBody || '', log.error || '', log.response && !log.response.encoding ? log.response.body : ''];
+    if (!fields.some(field => field.toLowerCase().includes(keyword))) return false;
+  }
+  return true;
+}
+
+// 格式化日志中的请求体或响应体：JSON 缩进显示，二进制显示类型和大小（图片显示预览）
+function formatLogBody(body: string, contentType: string, encoding?: 'base64'): string {
+  if (encoding === 'base64') {
+    const dataUrl = `data:${contentType || 'application/octet-stream'};base64,${body}`;
+    return `
+      <div style="font-size: 12px; color: #666;">二进制数据：${escapeHtml(describeBinaryData(dataUrl))}</div>
+      ${/^image\//.test(contentType) ? `<img class="mock-log-image" src="${escapeHtml(dataUrl)}" alt="">` : ''}
+    `;
+  }
+  if (!body) return '<div style="font-size: 12px; color: #999;">无</div>';
+  let text = body;
+  try {
+    text = JSON.stringify(JSON.parse(body), null, 2);
+  } catch (e) {
+    // 不是 JSON，按原样显示
+  }
+  return `<pre class="mock-log-pre">${escapeHtml(text)}</pre>`;
+}
+
+// 渲染键值表格（请求头、响应头等）
+function renderLogTable(rows: [string, string][]): string {
+  if (rows.length === 0) return '<div style="font-size: 12px; color: #999;">无</div>';
+  return `
+    <table class="mock-log-table">
+      ${rows.map(([name, value]) => `<tr><td>${escapeHtml(name)}</td><td>${escapeHtml(value)}</td></tr>`).join('')}
+    </table>
+  `;
+}
+
+// 在抽屉中显示请求详情
+function showLogDetail(id: string) {
+  const drawer = document.getElementById('mock-log-drawer');
+  const log = requestLogs.find(l => l.id === id);
+  if (!drawer || !log) return;
+
+  const rule = log.ruleId ? config.rules.find(r => r.id === log.ruleId) : null;
+  const response = log.response;
+  const requestHeaders = log.requestHeaders || {};
+  drawer.innerHTML = `
+    <div class="mock-log-drawer-header">
+      <span style="word-break: break-all;"><strong>${escapeHtml(log.method)}</strong> ${escapeHtml(log.url)}</span>
+      <button class="mock-btn mock-btn-secondary" data-action="close-log-detail">关闭</button>
+    </div>
+    <div style="margin-top: 8px;">
+      ${renderLogActions(log)}
+      <button class="mock-btn mock-btn-secondary" data-action="copy-curl" data-id="${log.id}">复制为 cURL</button>
+      <button class="mock-btn mock-btn-secondary" data-action="copy-fetch" data-id="${log.id}">复制为 fetch()</button>
+      <button class="mock-btn mock-btn-secondary" data-action="test-log" data-id="${log.id}">测试规则匹配</button>
+    </div>
+    <h4>概要</h4>
+    ${renderLogTable([
+      ['状态码', response ? `${response.status} ${statusTexts[response.status] || ''}`.trim() : '-'],
+      ['发起方式', initiatorLabels[log.initiator] || log.initiator],
+      ['时间', new Date(log.timestamp).toLocaleString()],
+      ...(log.pageUrl ? [['页面', log.pageUrl] as [string, string]] : []),
+      ['耗时', log.duration !== undefined ? `${log.duration} ms` : '-'],
+      ['规则', log.matched ? (rule ? rule.name : '（规则已删除）') : '未拦截'],
+      ...(log.error ? [['错误', log.error] as [string, string]] : []),
+    ])}
+    <h4>请求头</h4>
+    ${renderLogTable(Object.keys(requestHeaders).map(name => [name, requestHeaders[name]]))}
+    <h4>请求体</h4>
+    ${formatLogBody(log.requestBody || '', requestHeaders['content-type'] || '')}
+    <h4>响应头</h4>
+    ${response ? renderLogTable(Object.keys(response.headers).map(name => [name, response.headers[name]])) : '<div style="font-size: 12px; color: #999;">未捕获响应</div>'}
+    <h4>响应体</h4>
+    ${response?.truncated ? `<div style="font-size: 12px; color: #999;">${response.body ? '响应体过大，仅显示开头部分' : '未记录响应体'}</div>` : ''}
+    ${response ? formatLogBody(response.body, response.headers['content-type'] || '', response.encoding) : '<div style="font-size: 12px; color: #999;">未捕获响应</div>'}
+    ${log.events && log.events.length > 0 ? `
+      <h4>已推送 ${log.events.length} 个事件</h4>
+      ${log.events.map(event => `
+        <div class="mock-ws-log-message">
+          <span style="color: #999;">${new Date(event.timestamp).toLocaleTimeString()}</span>
+          ${event.event ? `<strong>${escapeHtml(event.event)}</strong>` : ''}
+          ${event.id ? `<span style="color: #999;">#${escapeHtml(event.id)}</span>` : ''}
+          <code>${escapeHtml(event.data)}</code>
+        </div>
+      `).join('')}
+    ` : ''}
+  `;
+  drawer.style.display = 'block';
+  drawer.scrollTop = 0;
+}
+
+// 渲染日志的操作按钮：Mock 此请求，已拦截的请求可跳转到规则
+function renderLogActions(log: RequestLog): string {
+  const rule = log.ruleId ? config.rules.find(r => r.id === log.ruleId) : null;
+  return `
+    <span class="mock-log-actions">
+      ${rule ? `<button class="mock-btn mock-btn-secondary" data-action="open-rule" data-id="${log.id}">跳转到规则</button>` : ''}
+      <button class="mock-btn mock-btn-primary" data-action="mock-log" data-id="${log.id}">Mock 此请求</button>
+    </span>
+  `;
+}
+
+// 获取日志中请求的完整地址
+function getLogAbsoluteUrl(log: RequestLog): string {
+  try {
+    return new URL(log.url, log.pageUrl || location.href).href;
+  } catch (e) {
+    return log.url;
+  }
+}
 
-    saveConfig();
-    renderRules();
-  });
+// 将日志中的请求转换为 cURL 命令
+function toCurl(log: RequestLog): string {
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+  const method = log.method.toUpperCase();
+  const headers = log.requestHeaders || {};
+  const parts = [`curl ${quote(getLogAbsoluteUrl(log))}`];
+  if (method !== 'GET') parts.push(`-X ${method}`);
+  Object.keys(headers).forEach(name => parts.push(`-H ${quote(`${name}: ${headers[name]}`)}`));
+  if (log.requestBody) parts.push(`--data-raw ${quote(log.requestBody)}`);
+  return parts.join(' \\\n  ');
+}
 
-  container.querySelector('#mock-cancel-edit')?.addEventListener('click', () => {
-    renderRules();
+// 将日志中的请求转换为 fetch() 调用
+function toFetchSnippet(log: RequestLog): string {
+  const init: Record<string, unknown> = { method: log.method.toUpperCase() };
+  if (log.requestHeaders && Object.keys(log.requestHeaders).length > 0) init.headers = log.requestHeaders;
+  if (log.requestBody) init.body = log.requestBody;
+  return `fetch(${JSON.stringify(getLogAbsoluteUrl(log))}, ${JSON.stringify(init, null, 2)});`;
+}
+
+// 复制文本并在按钮上短暂显示结果
+function copyWithFeedback(button: HTMLElement, text: string) {
+  const label = button.textContent;
+  GMCompat.setClipboard(text).then(
+    () => { button.textContent = '已复制'; },
+    () => { button.textContent = '复制失败'; }
+  ).finally(() => {
+    setTimeout(() => { button.textContent = label; }, 1500);
   });
 }
 
+// 根据日志打开预填的规则编辑器，URL 匹配规则默认仅匹配路径
+function mockFromLog(log: RequestLog) {
+  showTab('rules');
+  showRuleEditor(createRuleFromLog(log), suggestUrlPatterns(log.url));
+}
+
+// 处理日志的操作按钮，返回是否已处理
+function handleLogAction(target: HTMLElement): boolean {
+  const action = target.getAttribute('data-action');
+  if (!['mock-log', 'open-rule', 'copy-curl', 'copy-fetch', 'test-log'].includes(action || '')) return false;
+
+  const log = requestLogs.find(l => l.id === target.getAttribute('data-id'));
+  if (!log) return true;
+  if (action === 'mock-log') {
+    mockFromLog(log);
+  } else if (action === 'copy-curl') {
+    copyWithFeedback(target, toCurl(log));
+  } else if (action === 'copy-fetch') {
+    copyWithFeedback(target, toFetchSnippet(log));
+  } else if (action === 'test-log') {
+    showTab('rules');
+    showRuleTester(log);
+  } else {
+    const rule = config.rules.find(r => r.id === log.ruleId);
+    if (!rule) return true;
+    showTab('rules');
+    showRuleEditor(rule);
+  }
+  return true;
+}
+
+// 渲染符合筛选条件的日志列表
+function renderLogList() {
+  const list = document.getElementById('mock-log-list');
+  const count = document.getElementById('mock-log-count');
+  if (!list) return;
+
+  const logs = requestLogs.filter(matchesLogFilter);
+  if (count) {
+    count.textContent = logs.length === requestLogs.length ? `共 ${requestLogs.length} 条请求` : `显示 ${logs.length} / 共 ${requestLogs.length} 条请求`;
+  }
+
+  list.innerHTML = `
+    ${logs.length === 0 ? `<p style="color: #999; text-align: center; padding: 40px 0;">${requestLogs.length === 0 ? '暂无请求日志' : '没有符合条件的请求'}</p>` : ''}
+    ${logs.map(log => {
+      const rule = log.ruleId ? config.rules.find(r => r.id === log.ruleId) : null;
+      const time = new Date(log.timestamp).toLocaleTimeString();
+      const status = log.response?.status;
+      return `
+        <div class="mock-log-item ${log.matched ? 'mock-log-matched' : ''}" data-id="${log.id}">
+          <div style="display: flex; justify-content: space-between; gap: 8px; margin-bottom: 4px;">
+            <span style="word-break: break-all;"><strong>${escapeHtml(log.method)}</strong> ${escapeHtml(log.url)}</span>
+            <span style="color: #999; white-space: nowrap;">${time}</span>
+          </div>
+          <div class="mock-log-meta">
+            ${status !== undefined ? `<span class="${status >= 400 || status === 0 ? 'mock-log-status-error' : 'mock-log-status-ok'}">${status}</span>` : ''}
+            <span>${initiatorLabels[log.initiator] || log.initiator}</span>
+            ${log.duration !== undefined ? `<span>${log.duration} ms</span>` : ''}
+            ${log.matched && rule ? `<span style="color: #155724;">✓ 已拦截 - ${escapeHtml(rule.name)}</span>` : ''}
+            ${log.events && log.events.length > 0 ? `<span>已推送 ${log.events.length} 个事件</span>` : ''}
+          </div>
+          ${log.error ? `<div style="color: #721c24; font-size: 12px;">✗ 错误 - ${escapeHtml(log.error)}</div>` : ''}
+          <div style="display: flex; justify-content: space-between; align-items: center; gap: 8px; margin-top: 4px; font-size: 12px; color: #666;">
+            <span>${log.recorded && log.response ? `● 已录制 - 状态码 ${log.response.status}，${log.response.encoding === 'base64' ? `${Math.floor(log.response.body.length * 3 / 4) - (log.response.body.match(/=*$/)![0].length)} 字节` : `${log.response.body.length} 字符`}` : ''}</span>
+            ${renderLogActions(log)}
+          </div>
+        </div>
+      `;
+    }).join('')}
+  `;
+}
+
 // 渲染日志
 function renderLogs() {
   const container = document.getElementById('mock-tab-logs');
   if (!container) return;
 
+  const methods = Array.from(new Set(requestLogs.map(log => log.method.toUpperCase()))).sort();
+  const rules = config.rules.filter(rule => requestLogs.some(log => log.ruleId === rule.id));
+  const select = (key: keyof typeof logFilter, label: string, options: [string, string][]) => `
+    <select class="mock-form-select" data-filter="${key}">
+      <option value="">${label}</option>
+      ${options.map(([value, text]) => `<option value="${escapeHtml(value)}" ${logFilter[key] === value ? 'selected' : ''}>${escapeHtml(text)}</option>`).join('')}
+    </select>
+  `;
+
   const html = `
     <div class="mock-toolbar">
       <button class="mock-btn mock-btn-danger" id="mock-clear-logs">清空日志</button>
-      <span style="margin-left: auto; color: #666; font-size: 13px;">
-        共 ${requestLogs.length} 条请求
-      </span>
+      <button class="mock-btn mock-btn-secondary" id="mock-export-har">导出 HAR</button>
+      <button class="mock-btn mock-btn-secondary" id="mock-export-logs">导出 JSON</button>
+      <button class="mock-btn ${config.recordResponses ? 'mock-btn-danger' : 'mock-btn-secondary'}" id="mock-toggle-record">
+        ${config.recordResponses ? '■ 停止录制' : '● 开始录制'}
+      </button>
+      ${requestLogs.some(log => log.recorded && log.response) ? '<button class="mock-btn mock-btn-primary" id="mock-save-recorded">全部保存为规则</button>' : ''}
+      <span id="mock-log-count" style="margin-left: auto; color: #666; font-size: 13px;"></span>
     </div>
-    <div>
-      ${requestLogs.length === 0 ? '<p style="color: #999; text-align: center; padding: 40px 0;">暂无请求日志</p>' : ''}
-      ${requestLogs.map(log => {
-        const rule = log.ruleId ? config.rules.find(r => r.id === log.ruleId) : null;
-        const time = new Date(log.timestamp).toLocaleTimeString();
-        return `
-          <div class="mock-log-item ${log.matched ? 'mock-log-matched' : ''}">
-            <div style="display: flex; justify-content: space-between; margin-bottom: 4px;">
-              <span><strong>${log.method}</strong> ${log.url}</span>
-              <span style="color: #999;">${time}</span>
-            </div>
-            ${log.matched && rule ? `<div style="color: #155724; font-size: 12px;">✓ 已拦截 - ${rule.name}</div>` : ''}
-          </div>
-        `;
-      }).join('')}
+    <div class="mock-log-filters">
+      <input type="search" class="mock-form-input" id="mock-log-search" placeholder="搜索地址、请求体、响应体" value="${escapeHtml(logFilter.search)}">
+      ${select('method', '全部方法', methods.map(method => [method, method]))}
+      ${select('status', '全部状态', [['2xx', '2xx'], ['3xx', '3xx'], ['4xx', '4xx'], ['5xx', '5xx'], ['failed', '失败 / 出错']])}
+      ${select('matched', '全部请求', [['matched', '已拦截'], ['unmatched', '未拦截']])}
+      ${select('ruleId', '全部规则', rules.map(rule => [rule.id, rule.name]))}
     </div>
+    <div id="mock-log-list"></div>
+    <div id="mock-log-drawer" class="mock-log-drawer" style="display: none;"></div>
   `;
 
   container.innerHTML = html;
+  renderLogList();
 
   container.querySelector('#mock-clear-logs')?.addEventListener('click', () => {
-    requestLogs = [];
+    clearRequestLogs();
+    renderLogs();
+  });
+
+  container.querySelector('#mock-export-har')?.addEventListener('click', exportHar);
+
+  container.querySelector('#mock-export-logs')?.addEventListener('click', () => {
+    const logs = requestLogs.filter(matchesLogFilter);
+    downloadFile(JSON.stringify(logs, null, 2), `mock-logs-${Date.now()}.json`, 'application/json');
+  });
+
+  container.querySelector('#mock-toggle-record')?.addEventListener('click', () => {
+    config.recordResponses = !config.recordResponses;
+    saveConfig();
     renderLogs();
   });
+
+  container.querySelector('#mock-log-search')?.addEventListener('input', (e) => {
+    logFilter.search = (e.target as HTMLInputElement).value.trim();
+    renderLogList();
+  });
+  container.querySelectorAll('[data-filter]').forEach(select => {
+    select.addEventListener('change', () => {
+      logFilter[select.getAttribute('data-filter') as keyof typeof logFilter] = (select as HTMLSelectElement).value;
+      renderLogList();
+    });
+  });
+
+  container.querySelector('#mock-save-recorded')?.addEventListener('click', () => {
+    // 同一方法和地址只保留最近一次录制
+    const seen = new Set<string>();
+    const drafts = requestLogs
+      .filter(log => log.recorded && log.response)
+      .map(createRuleFromLog)
+      .filter(rule => {
+        const key = `${rule.method} ${rule.urlMatchType} ${rule.urlPattern}`;
+        const exists = seen.has(key) || config.rules.some(r => `${r.method} ${r.urlMatchType} ${r.urlPattern}` === key);
+        seen.add(key);
+        return !exists;
+      });
+
+    if (drafts.length === 0) {
+      alert('录制的请求都已存在对应规则');
+      return;
+    }
+    if (confirm(`将根据录制内容新增 ${drafts.length} 条规则，确定吗？`)) {
+      addRules(drafts);
+      saveConfig();
+      switchTab('rules');
+    }
+  });
+
+  // 点击日志查看详情
+  container.querySelector('#mock-log-list')?.addEventListener('click', (e) => {
+    const target = e.target as HTMLElement;
+    if (handleLogAction(target)) return;
+    const item = target.closest('.mock-log-item');
+    if (item) showLogDetail(item.getAttribute('data-id')!);
+  });
+
+  container.querySelector('#mock-log-drawer')?.addEventListener('click', (e) => {
+    if (handleLogAction(e.target as HTMLElement)) return;
+    if ((e.target as HTMLElement).getAttribute('data-action') === 'close-log-detail') {
+      (e.currentTarget as HTMLElement).style.display = 'none';
+    }
+  });
 }
 
 // 渲染设置
@@ -928,6 +6450,58 @@ function renderSettings() {
           <span>记录请求日志</span>
         </label>
       </div>
+      <div class="mock-form-group">
+        <label class="mock-form-label">日志最多保留条数</label>
+        <input type="number" class="mock-form-input" id="mock-log-limit" value="${config.logLimit}" min="10" max="500">
+      </div>
+      <div class="mock-form-group">
+        <label class="mock-form-label">日志保留时长（小时）</label>
+        <input type="number" class="mock-form-input" id="mock-log-retention" value="${config.logRetentionHours}" min="0" max="720">
+        <div style="margin-top: 4px; font-size: 12px; color: #999;">
+          默认 0 只保留当前页面的日志；大于 0 时按站点保存日志，刷新和跳转页面后仍然保留
+        </div>
+      </div>
+      <div class="mock-form-group">
+        <label class="mock-form-label">默认网络环境</label>
+        <select class="mock-form-select" id="mock-network-preset">
+          <option value="none" ${config.networkPreset === 'none' ? 'selected' : ''}>不限速（使用规则的延迟）</option>
+          ${(Object.keys(networkPresets) as NetworkPresetName[]).map(name => `
+            <option value="${name}" ${config.networkPreset === name ? 'selected' : ''}>${networkPresets[name].label}</option>
+          `).join('')}
+        </select>
+        <div style="margin-top: 4px; font-size: 12px; color: #999;">
+          作用于网络环境为"跟随全局设置"的规则
+        </div>
+      </div>
+      <div style="margin-top: 24px; padding-top: 24px; border-top: 1px solid #e0e0e0;">
+        <h4>混沌模式</h4>
+        <div class="mock-form-group">
+          <label style="display: flex; align-items: center; gap: 8px; cursor: pointer;">
+            <input type="checkbox" id="mock-chaos-enabled" ${config.chaos.enabled ? 'checked' : ''}>
+            <span>按比例让请求失败，用于测试离线和错误处理界面</span>
+          </label>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">失败比例（%）</label>
+          <input type="number" class="mock-form-input" id="mock-chaos-rate" value="${config.chaos.rate}" min="0" max="100">
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">作用范围</label>
+          <select class="mock-form-select" id="mock-chaos-scope">
+            <option value="all" ${config.chaos.scope === 'all' ? 'selected' : ''}>所有请求</option>
+            <option value="matched" ${config.chaos.scope === 'matched' ? 'selected' : ''}>仅匹配规则的请求</option>
+            <option value="unmatched" ${config.chaos.scope === 'unmatched' ? 'selected' : ''}>仅未匹配规则的请求</option>
+          </select>
+        </div>
+        <div class="mock-form-group">
+          <label class="mock-form-label">失败方式</label>
+          <select class="mock-form-select" id="mock-chaos-outcome">
+            ${(['networkError', 'timeout', 'reset', 'malformedJson', 'serverError'] as const).map(outcome => `
+              <option value="${outcome}" ${config.chaos.outcome === outcome ? 'selected' : ''}>${outcomeLabels[outcome]}</option>
+            `).join('')}
+          </select>
+        </div>
+      </div>
       <div style="margin-top: 24px; padding-top: 24px; border-top: 1px solid #e0e0e0;">
         <h4>关于</h4>
         <p style="color: #666; font-size: 14px;">
@@ -965,58 +6539,542 @@ function renderSettings() {
     config.logRequests = (e.target as HTMLInputElement).checked;
     saveConfig();
   });
+
+  container.querySelector('#mock-log-limit')?.addEventListener('change', (e) => {
+    const limit = parseInt((e.target as HTMLInputElement).value) || 100;
+    config.logLimit = Math.min(500, Math.max(10, limit));
+    requestLogs = requestLogs.slice(0, config.logLimit);
+    saveConfig();
+    saveRequestLogs();
+  });
+
+  container.querySelector('#mock-log-retention')?.addEventListener('change', (e) => {
+    const hours = parseInt((e.target as HTMLInputElement).value) || 0;
+    config.logRetentionHours = Math.min(720, Math.max(0, hours));
+    saveConfig();
+    if (config.logRetentionHours > 0) {
+      saveRequestLogs();
+    } else {
+      GMCompat.setValue(getRequestLogsKey(), JSON.stringify({ clearedAt: Date.now(), logs: [] }));
+    }
+  });
+
+  container.querySelector('#mock-network-preset')?.addEventListener('change', (e) => {
+    config.networkPreset = (e.target as HTMLSelectElement).value as ScriptConfig['networkPreset'];
+    saveConfig();
+  });
+
+  container.querySelector('#mock-chaos-enabled')?.addEventListener('change', (e) => {
+    config.chaos.enabled = (e.target as HTMLInputElement).checked;
+    saveConfig();
+  });
+
+  container.querySelector('#mock-chaos-rate')?.addEventListener('change', (e) => {
+    const rate = parseInt((e.target as HTMLInputElement).value) || 0;
+    config.chaos.rate = Math.min(100, Math.max(0, rate));
+    saveConfig();
+  });
+
+  container.querySelector('#mock-chaos-scope')?.addEventListener('change', (e) => {
+    config.chaos.scope = (e.target as HTMLSelectElement).value as ChaosConfig['scope'];
+    saveConfig();
+  });
+
+  container.querySelector('#mock-chaos-outcome')?.addEventListener('change', (e) => {
+    config.chaos.outcome = (e.target as HTMLSelectElement).value as ChaosConfig['outcome'];
+    saveConfig();
+  });
 }
 
-// 导出配置
-function exportConfig() {
-  const data = JSON.stringify(config, null, 2);
-  const blob = new Blob([data], { type: 'application/json' });
+// 下载文件
+function downloadFile(content: string, fileName: string, type: string) {
+  const blob = new Blob([content], { type });
   const url = URL.createObjectURL(blob);
   const a = document.createElement('a');
   a.href = url;
-  a.download = `mock-config-${Date.now()}.json`;
+  a.download = fileName;
   a.click();
   URL.revokeObjectURL(url);
 }
 
-// 导入配置
-function importConfig() {
+// 解析 OpenAPI 文档中的 $ref（仅支持文档内引用）
+function resolveOpenApiRef(doc: any, value: any): any {
+  let current = value;
+  const seen = new Set<string>();
+  while (current && typeof current.$ref === 'string') {
+    const ref: string = current.$ref;
+    if (!ref.startsWith('#/') || seen.has(ref)) return {};
+    seen.add(ref);
+    current = parseJSONPointer(ref.slice(1)).reduce((node, key) => node?.[key], doc);
+  }
+  return current || {};
+}
+
+// 根据 Schema 生成示例数据（循环引用处返回 null）
+function sampleFromSchema(doc: any, schemaRef: any, depth = 0, refs: string[] = []): any {
+  const ref = schemaRef?.$ref;
+  if (depth > 8 || (ref && refs.includes(ref))) return null;
+  if (ref) refs = [...refs, ref];
+
+  const schema = resolveOpenApiRef(doc, schemaRef);
+  if (schema.example !== undefined) return schema.example;
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.default !== undefined) return schema.default;
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.reduce((result: any, part: any) => {
+      const sample = sampleFromSchema(doc, part, depth + 1, refs);
+      return sample && typeof sample === 'object' && !Array.isArray(sample) ? { ...result, ...sample } : result;
+    }, {});
+  }
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants) && variants.length > 0) {
+    return sampleFromSchema(doc, variants[0], depth + 1, refs);
+  }
+
+  const type = Array.isArray(schema.type) ? schema.type.find((t: string) => t !== 'null') : schema.type;
+  switch (type || (schema.properties ? 'object' : schema.items ? 'array' : undefined)) {
+    case 'object': {
+      const result: Record<string, any> = {};
+      Object.keys(schema.properties || {}).forEach(key => {
+        result[key] = sampleFromSchema(doc, schema.properties[key], depth + 1, refs);
+      });
+      return result;
+    }
+    case 'array':
+      return schema.items ? [sampleFromSchema(doc, schema.items, depth + 1, refs)] : [];
+    case 'integer':
+    case 'number':
+      return schema.minimum ?? 0;
+    case 'boolean':
+      return true;
+    case 'string':
+      switch (schema.format) {
+        case 'date-time': return new Date(0).toISOString();
+        case 'date': return '1970-01-01';
+        case 'email': return 'user@example.com';
+        case 'uuid': return '00000000-0000-4000-8000-000000000000';
+        case 'uri':
+        case 'url': return 'https://example.com';
+        default: return 'string';
+      }
+  }
+  return null;
+}
+
+// 将路径模板转换为 URL 匹配规则：路径参数转换为 :name，路径中含 * 或 : 等无法按路径参数表示时使用完整匹配路径的正则
+function openApiPathToPattern(basePath: string, path: string): Pick<MockRule, 'urlPattern' | 'urlMatchType'> {
+  const fullPath = `${basePath.replace(/\/+$/, '')}${path}`;
+  const parts = fullPath.split(/(\{[^}]+\})/).map((part, i) => {
+    if (i % 2 === 0) return { text: part };
+    return { text: part, name: part.slice(1, -1).replace(/[^A-Za-z0-9_$]/g, '_').replace(/^(\d)/, '_$1') };
+  });
+
+  const asPath = parts.every((part, i) => part.name
+    ? !/^[\w$]/.test(parts[i + 1]?.text || '')
+    : !/[*:]/.test(part.text));
+  if (asPath) {
+    return { urlPattern: parts.map(part => part.name ? `:${part.name}` : part.text).join(''), urlMatchType: 'path' };
+  }
+  return {
+    urlPattern: `^${parts.map(part => part.name ? `(?<${part.name}>[^/]+)` : escapeRegExp(part.text)).join('')}$`,
+    urlMatchType: 'regex',
+  };
+}
+
+// 从 OpenAPI 操作中选取响应示例
+function pickOpenApiResponse(doc: any, operation: any): { statusCode: number; body: any; contentType: string } {
+  const responses = operation.responses || {};
+  const codes = Object.keys(responses);
+  const code = codes.find(c => /^2\d\d$/.test(c)) || codes.find(c => /^2/i.test(c)) || (codes.includes('default') ? 'default' : codes[0]);
+  const statusCode = code && /^\d{3}$/.test(code) && isValidStatusCode(parseInt(code)) ? parseInt(code) : 200;
+  const response = code ? resolveOpenApiRef(doc, responses[code]) : {};
+
+  // OpenAPI 3
+  if (response.content) {
+    const types = Object.keys(response.content);
+    const contentType = types.find(t => t.includes('json')) || types[0] || 'application/json';
+    const media = response.content[contentType] || {};
+    if (media.example !== undefined) return { statusCode, body: media.example, contentType };
+    const examples = Object.values(media.examples || {});
+    if (examples.length > 0) {
+      return { statusCode, body: resolveOpenApiRef(doc, examples[0]).value, contentType };
+    }
+    return { statusCode, body: media.schema ? sampleFromSchema(doc, media.schema) : undefined, contentType };
+  }
+
+  // Swagger 2
+  const examples = response.examples || {};
+  const exampleType = Object.keys(examples).find(t => t.includes('json'));
+  if (exampleType) return { statusCode, body: examples[exampleType], contentType: exampleType };
+  return { statusCode, body: response.schema ? sampleFromSchema(doc, response.schema) : undefined, contentType: 'application/json' };
+}
+
+// 根据 OpenAPI / Swagger 文档生成规则
+function createRulesFromOpenApi(doc: any): MockRule[] {
+  if (!doc || typeof doc !== 'object' || !doc.paths || !(doc.openapi || doc.swagger)) {
+    throw new Error('不是有效的 OpenAPI / Swagger 文档');
+  }
+
+  let basePath = doc.basePath || '';
+  if (doc.openapi && Array.isArray(doc.servers) && doc.servers[0]?.url) {
+    try {
+      basePath = new URL(doc.servers[0].url, 'http://localhost').pathname;
+    } catch (e) {
+      // 忽略无法解析的 server 地址
+    }
+  }
+
+  const methods = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+  const rules: MockRule[] = [];
+
+  Object.keys(doc.paths).forEach(path => {
+    const pathItem = resolveOpenApiRef(doc, doc.paths[path]);
+    methods.forEach(method => {
+      const operation = pathItem[method];
+      if (!operation) return;
+
+      const { statusCode, body, contentType } = pickOpenApiResponse(doc, operation);
+      let responseType = statusCode === 204 ? 'text' : getResponseTypeFromContentType(contentType);
+      // XML、CSV 等文本格式的示例不是字符串（如由 schema 生成的对象）时，按 JSON 返回
+      if (responseType !== 'json' && body !== undefined && statusCode !== 204 && typeof body !== 'string') {
+        responseType = 'json';
+      }
+      const isJson = responseType === 'json';
+      rules.push({
+        id: generateId(),
+        enabled: true,
+        name: operation.summary || operation.operationId || `${method.toUpperCase()} ${path}`,
+        ...openApiPathToPattern(basePath, path),
+        pageUrlPattern: location.host,
+        method: method.toUpperCase(),
+        responseType,
+        responseData: body === undefined || statusCode === 204 ? (isJson ? '{}' : '') : isJson ? JSON.stringify(body, null, 2) : body,
+        statusCode,
+        delay: 0,
+      });
+    });
+  });
+
+  return rules;
+}
+
+// 导入 OpenAPI / Swagger 文档
+function importOpenApi() {
+  pickTextFile('.json,.yaml,.yml', text => {
+    let rules: MockRule[];
+    try {
+      let doc: any;
+      try {
+        doc = JSON.parse(text);
+      } catch (e) {
+        doc = loadYaml(text);
+      }
+      rules = createRulesFromOpenApi(doc);
+    } catch (err) {
+      alert(`导入失败：${err instanceof Error ? err.message : err}`);
+      return;
+    }
+
+    if (rules.length === 0) {
+      alert('文档中没有可导入的接口');
+      return;
+    }
+    if (confirm(`将根据文档新增 ${rules.length} 条规则，确定吗？`)) {
+      addRules(rules);
+      saveConfig();
+      renderRules();
+    }
+  });
+}
+
+// 选择并读取文本文件
+function pickTextFile(accept: string, onLoad: (text: string) => void) {
   const input = document.createElement('input');
   input.type = 'file';
-  input.accept = '.json';
+  input.accept = accept;
+  input.onchange = (e) => {
+    const file = (e.target as HTMLInputElement).files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => onLoad(e.target?.result as string);
+    reader.readAsText(file);
+  };
+  input.click();
+}
+
+// 选择本地文件并读取为 data URL
+function pickDataUrlFile(accept: string, onLoad: (dataUrl: string) => void) {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = accept;
   input.onchange = (e) => {
     const file = (e.target as HTMLInputElement).files?.[0];
     if (!file) return;
 
     const reader = new FileReader();
     reader.onload = (e) => {
-      try {
-        const imported = JSON.parse(e.target?.result as string);
-        if (confirm('确定要导入配置吗？这将覆盖当前所有规则。')) {
-          config = { ...defaultConfig, ...imported };
-          saveConfig();
-          renderRules();
-          alert('导入成功！');
-        }
-      } catch (err) {
-        alert('导入失败：文件格式错误');
-      }
+      // 无法识别类型的文件按 application/octet-stream 处理
+      onLoad((e.target?.result as string).replace(/^data:;/, 'data:application/octet-stream;'));
     };
-    reader.readAsText(file);
+    reader.readAsDataURL(file);
   };
   input.click();
 }
 
+// 导出配置
+function exportConfig() {
+  downloadFile(JSON.stringify(config, null, 2), `mock-config-${Date.now()}.json`, 'application/json');
+}
+
+// 导入配置
+function importConfig() {
+  pickTextFile('.json', text => {
+    try {
+      const imported = JSON.parse(text);
+      if (confirm('确定要导入配置吗？这将覆盖当前所有规则。')) {
+        config = { ...defaultConfig, ...imported };
+        saveConfig();
+        renderScenarioSelect();
+        renderRules();
+        alert('导入成功！');
+      }
+    } catch (err) {
+      alert('导入失败：文件格式错误');
+    }
+  });
+}
+
+// 将对象转换为 HAR 的 name/value 列表
+function toHarPairs(record: Record<string, string>): { name: string; value: string }[] {
+  return Object.keys(record).map(name => ({ name, value: record[name] }));
+}
+
+// 计算记录的响应体字节数（base64 按解码后的长度计算）
+function getCapturedBodySize(response: CapturedResponse): number {
+  if (response.encoding === 'base64') {
+    const base64 = response.body.replace(/\s+/g, '');
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return Math.floor(base64.length * 3 / 4) - padding;
+  }
+  return new TextEncoder().encode(response.body).length;
+}
+
+// 导出请求日志为 HAR
+function exportHar() {
+  const entries = requestLogs.slice().reverse().map(log => {
+    let url = log.url;
+    let queryString: { name: string; value: string }[] = [];
+    try {
+      const parsed = new URL(log.url, location.href);
+      url = parsed.href;
+      queryString = Array.from(parsed.searchParams, ([name, value]) => ({ name, value }));
+    } catch (e) {
+      // 使用原始地址
+    }
+
+    const requestHeaders = log.requestHeaders || {};
+    const response = log.response;
+    const rule = log.ruleId ? config.rules.find(r => r.id === log.ruleId) : undefined;
+    const mimeType = response?.headers['content-type'] || '';
+    const duration = log.duration ?? 0;
+    // 响应体不完整时按 Content-Length 记录完整大小
+    const bodySize = response ? getCapturedBodySize(response) : -1;
+    const contentSize = response?.truncated && /^\d+$/.test(response.headers['content-length'] || '')
+      ? parseInt(response.headers['content-length'])
+      : Math.max(bodySize, 0);
+
+    return {
+      startedDateTime: new Date(log.timestamp).toISOString(),
+      time: duration,
+      request: {
+        method: log.method,
+        url,
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarPairs(requestHeaders),
+        queryString,
+        ...(log.requestBody ? {
+          postData: { mimeType: requestHeaders['content-type'] || '', text: log.requestBody },
+        } : {}),
+        headersSize: -1,
+        bodySize: log.requestBody ? new TextEncoder().encode(log.requestBody).length : 0,
+      },
+      response: {
+        status: response?.status ?? 0,
+        statusText: '',
+        httpVersion: 'HTTP/1.1',
+        cookies: [],
+        headers: toHarPairs(response?.headers || {}),
+        content: {
+          size: contentSize,
+          mimeType,
+          ...(response ? { text: response.body } : {}),
+          ...(response?.encoding ? { encoding: response.encoding } : {}),
+          ...(response?.truncated ? { comment: '响应体过大，只保留了开头部分', _truncated: true } : {}),
+        },
+        redirectURL: response?.headers['location'] || '',
+        headersSize: -1,
+        bodySize,
+      },
+      cache: {},
+      // 日志只记录总耗时，全部计入等待时间
+      timings: { send: 0, wait: duration, receive: 0 },
+      ...(rule ? { comment: `Mock: ${rule.name}`, _mockRule: rule } : {}),
+    };
+  });
+
+  const har = {
+    log: {
+      version: '1.2',
+      creator: { name: 'mock-data-tool', version: '1.0.0' },
+      pages: [],
+      entries,
+    },
+  };
+  downloadFile(JSON.stringify(har, null, 2), `mock-requests-${Date.now()}.har`, 'application/json');
+}
+
+// 读取 HAR 条目中的响应体，非文本内容保持 base64
+function decodeHarContent(content: any): Pick<CapturedResponse, 'body' | 'encoding'> | null {
+  if (!content || typeof content.text !== 'string') return null;
+  if (content.encoding !== 'base64') return { body: content.text };
+  if (!isTextContentType(content.mimeType || '')) return { body: content.text, encoding: 'base64' };
+  try {
+    const bytes = Uint8Array.from(atob(content.text), c => c.charCodeAt(0));
+    return { body: new TextDecoder().decode(bytes) };
+  } catch (e) {
+    return null;
+  }
+}
+
+// 将 HAR 条目转换为请求日志格式，便于复用规则生成逻辑
+function harEntryToLog(entry: any): RequestLog | null {
+  const request = entry?.request;
+  const response = entry?.response;
+  if (!request?.url || !request?.method || !response) return null;
+
+  const content = decodeHarContent(response.content);
+  if (content === null) return null;
+
+  const headers: Record<string, string> = {};
+  (response.headers || []).forEach((h: { name: string; value: string }) => {
+    const name = h.name.toLowerCase();
+    // HTTP/2 伪首部不属于响应头
+    if (name.startsWith(':')) return;
+    headers[name] = name in headers ? `${headers[name]}, ${h.value}` : h.value;
+  });
+  if (!headers['content-type'] && response.content?.mimeType) {
+    headers['content-type'] = response.content.mimeType;
+  }
+  delete headers['set-cookie'];
+
+  return {
+    id: generateId(),
+    timestamp: Date.parse(entry.startedDateTime) || Date.now(),
+    url: request.url,
+    method: request.method.toUpperCase(),
+    initiator: entry._resourceType === 'xhr' ? 'xhr' : 'fetch',
+    matched: false,
+    response: { status: response.status, headers, ...content, ...(response.content?._truncated ? { truncated: true } : {}) },
+  };
+}
+
+// 导入 HAR 文件
+function importHar() {
+  pickTextFile('.har,.json', text => {
+    let entries: RequestLog[];
+    try {
+      const har = JSON.parse(text);
+      if (!Array.isArray(har?.log?.entries)) throw new Error('缺少 log.entries');
+      entries = har.log.entries.map(harEntryToLog).filter(Boolean);
+    } catch (err) {
+      alert('导入失败：不是有效的 HAR 文件');
+      return;
+    }
+
+    if (entries.length === 0) {
+      alert('HAR 文件中没有可导入的文本响应');
+      return;
+    }
+    renderHarImport(entries);
+  });
+}
+
+// 渲染 HAR 条目选择列表
+function renderHarImport(entries: RequestLog[]) {
+  const container = document.getElementById('mock-tab-rules');
+  if (!container) return;
+
+  // 默认勾选接口请求（JSON 响应）
+  const html = `
+    <div class="mock-toolbar">
+      <label style="display: flex; align-items: center; gap: 6px; font-size: 13px;">
+        <input type="checkbox" id="mock-har-select-all"> 全选
+      </label>
+      <button class="mock-btn mock-btn-primary" id="mock-har-confirm">导入选中</button>
+      <button class="mock-btn mock-btn-secondary" id="mock-har-cancel">取消</button>
+      <span style="margin-left: auto; color: #666; font-size: 13px;">共 ${entries.length} 个请求</span>
+    </div>
+    <div>
+      ${entries.map((entry, i) => `
+        <label class="mock-log-item" style="display: flex; gap: 8px; align-items: flex-start; cursor: pointer;">
+          <input type="checkbox" name="mock-har-entry" value="${i}" ${(entry.response!.headers['content-type'] || '').includes('json') ? 'checked' : ''}>
+          <span style="flex: 1; word-break: break-all;">
+            <strong>${entry.method}</strong> ${escapeHtml(entry.url)}
+            <span style="color: #999;">- ${entry.response!.status}，${escapeHtml(entry.response!.headers['content-type'] || '未知类型')}</span>
+          </span>
+        </label>
+      `).join('')}
+    </div>
+  `;
+
+  container.innerHTML = html;
+
+  const checkboxes = Array.from(container.querySelectorAll<HTMLInputElement>('input[name="mock-har-entry"]'));
+  container.querySelector('#mock-har-select-all')?.addEventListener('change', (e) => {
+    const checked = (e.target as HTMLInputElement).checked;
+    checkboxes.forEach(cb => { cb.checked = checked; });
+  });
+
+  container.querySelector('#mock-har-confirm')?.addEventListener('click', () => {
+    const selected = checkboxes.filter(cb => cb.checked).map(cb => entries[parseInt(cb.value)]);
+    if (selected.length === 0) {
+      alert('请至少选择一个请求');
+      return;
+    }
+    addRules(selected.map(createRuleFromLog));
+    saveConfig();
+    renderRules();
+    alert(`已导入 ${selected.length} 条规则`);
+  });
+
+  container.querySelector('#mock-har-cancel')?.addEventListener('click', () => {
+    renderRules();
+  });
+}
+
 // 主函数
 function main() {
   console.log('🎭 Mock 数据脚本已启动！');
   
   // 加载配置
   config = loadConfig();
+  sequenceState = loadSequenceState();
+  requestLogs = loadRequestLogs();
+
+  // 离开页面前保存尚未写入的日志
+  window.addEventListener('pagehide', () => {
+    if (logSaveTimer) saveRequestLogs();
+  });
   
   // 拦截请求
   interceptFetch();
   interceptXHR();
+  interceptWebSocket();
+  interceptEventSource();
   
   // 创建控制面板
   if (document.readyState === 'loading') {
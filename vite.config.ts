@@ -39,7 +39,8 @@ export default defineConfig({
         grant: [
           'GM_setValue',
           'GM_getValue',
-          'GM_addStyle'
+          'GM_addStyle',
+          'GM_setClipboard'
         ],
         // 在页面加载时运行 - 使用 document-start 以便尽早拦截请求
         'run-at': 'document-start',